@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { emailOptionsSchema, normalizeExtraction, renderEmail } from "@/lib/compose";
+import { extractionSchema } from "@/lib/extraction";
+import { rateLimit, readJsonBody } from "@/lib/limits";
+
+/* ---------- validation ---------- */
+const bodySchema = emailOptionsSchema.extend({
+  extraction: extractionSchema
+});
+
+/* =========================
+   Route handler
+   Re-renders edited structured data; never calls the model.
+   ========================= */
+export async function POST(req: NextRequest) {
+  const limited = await rateLimit(req, "compose");
+  if (limited) return limited;
+  const body = await readJsonBody(req);
+  if (!body.ok) return body.response;
+  const parsed = bodySchema.safeParse(body.value);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid input" }, { status: 400 });
+  }
+  const { extraction: edited, ...p } = parsed.data;
+  const extraction = normalizeExtraction(edited, p);
+
+  try {
+    return NextResponse.json({ ...renderEmail(p, extraction), actions: extraction.actions, extraction });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "Compose failed." }, { status: 500 });
+  }
+}
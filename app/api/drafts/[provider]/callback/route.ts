@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { STATE_COOKIE, callbackUrl, draftProviderFromEnv, exchangeCode, tokenCookie } from "@/lib/drafts";
+
+const TIMEOUT_MS = 15_000;
+
+// tells the opener window how it went and closes the popup (or goes home without one)
+function done(provider: string, error?: string) {
+  const payload = JSON.stringify({ type: "nte-drafts", provider, ok: !error, error }).replace(/</g, "\\u003c");
+  const html = `<!doctype html><meta charset="utf-8"><title>Connecting…</title>
+<p>${error ? "Could not connect. You can close this window." : "Connected. You can close this window."}</p>
+<script>
+if (window.opener) { window.opener.postMessage(${payload}, location.origin); window.close(); }
+else location.replace("/");
+</script>`;
+  return new NextResponse(html, { status: error ? 400 : 200, headers: { "Content-Type": "text/html; charset=utf-8" } });
+}
+
+export async function GET(req: NextRequest, { params }: { params: { provider: string } }) {
+  const provider = draftProviderFromEnv(params.provider);
+  if (!provider) {
+    return NextResponse.json({ error: "Draft provider is not configured." }, { status: 501 });
+  }
+  const q = req.nextUrl.searchParams;
+  const expected = req.cookies.get(STATE_COOKIE)?.value;
+  const code = q.get("code");
+
+  let res: NextResponse;
+  if (q.get("error")) {
+    res = done(provider.id, q.get("error_description") || q.get("error") || "Access denied.");
+  } else if (!code || !expected || expected !== `${provider.id}.${q.get("state")}`) {
+    res = done(provider.id, "The sign-in link expired. Try again.");
+  } else {
+    try {
+      const token = await exchangeCode(provider, code, callbackUrl(req.nextUrl.origin, provider.id), AbortSignal.timeout(TIMEOUT_MS));
+      res = done(provider.id);
+      res.cookies.set(tokenCookie(provider.id), token.accessToken, {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: req.nextUrl.protocol === "https:",
+        path: "/api/drafts",
+        // a minute early, so a draft never goes out with a token about to expire
+        maxAge: Math.max(60, token.expiresIn - 60)
+      });
+    } catch (e) {
+      console.error(e);
+      res = done(provider.id, `${provider.label} sign-in failed.`);
+    }
+  }
+  res.cookies.delete({ name: STATE_COOKIE, path: "/api/drafts" });
+  return res;
+}
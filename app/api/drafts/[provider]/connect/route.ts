@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { STATE_COOKIE, authorizeUrl, callbackUrl, draftProviderFromEnv } from "@/lib/drafts";
+
+// starts the OAuth flow; the UI opens this in a popup
+export async function GET(req: NextRequest, { params }: { params: { provider: string } }) {
+  const provider = draftProviderFromEnv(params.provider);
+  if (!provider) {
+    return NextResponse.json({ error: "Draft provider is not configured." }, { status: 501 });
+  }
+  const state = crypto.randomUUID();
+  const res = NextResponse.redirect(authorizeUrl(provider, callbackUrl(req.nextUrl.origin, provider.id), state));
+  res.cookies.set(STATE_COOKIE, `${provider.id}.${state}`, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: req.nextUrl.protocol === "https:",
+    path: "/api/drafts",
+    maxAge: 600
+  });
+  return res;
+}
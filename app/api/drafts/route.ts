@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  DRAFT_PROVIDER_IDS,
+  DRAFT_PROVIDER_LABELS,
+  draftProviderFromEnv,
+  draftProvidersFromEnv,
+  tokenCookie,
+  type DraftProviderId
+} from "@/lib/drafts";
+import { rateLimit, readJsonBody } from "@/lib/limits";
+import { recipientList, validateRecipients } from "@/utils/recipients";
+
+/* ---------- validation ---------- */
+const recipients = z.string().max(5_000).default("");
+
+const bodySchema = z.object({
+  provider: z.enum(DRAFT_PROVIDER_IDS),
+  to: recipients,
+  cc: recipients,
+  bcc: recipients,
+  subject: z.string().max(1_000),
+  text: z.string().min(1).max(200_000),
+  html: z.string().max(500_000).optional()
+});
+
+const TIMEOUT_MS = 15_000;
+
+// the browser sends the httpOnly cookie; scripts and tests may pass the token as a Bearer header
+function accessToken(req: NextRequest, id: DraftProviderId): string | null {
+  const bearer = req.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1];
+  return bearer?.trim() || req.cookies.get(tokenCookie(id))?.value || null;
+}
+
+/* =========================
+   Route handlers
+   ========================= */
+export async function GET(req: NextRequest) {
+  const providers = draftProvidersFromEnv().map(p => ({
+    id: p.id,
+    label: p.label,
+    connected: !!req.cookies.get(tokenCookie(p.id))?.value
+  }));
+  return NextResponse.json({ providers });
+}
+
+export async function POST(req: NextRequest) {
+  const limited = await rateLimit(req, "drafts");
+  if (limited) return limited;
+  const body = await readJsonBody(req);
+  if (!body.ok) return body.response;
+  const parsed = bodySchema.safeParse(body.value);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid input" }, { status: 400 });
+  }
+  const { provider: id, to, cc, bcc, subject, text, html } = parsed.data;
+  const bad = [to, cc, bcc].flatMap(r => validateRecipients(r).bad);
+  if (bad.length) {
+    return NextResponse.json({ error: `Invalid recipients: ${bad.join(", ")}` }, { status: 400 });
+  }
+
+  const provider = draftProviderFromEnv(id);
+  if (!provider) {
+    return NextResponse.json({ error: `${DRAFT_PROVIDER_LABELS[id]} drafts are not configured.` }, { status: 501 });
+  }
+  const token = accessToken(req, id);
+  if (!token) {
+    return NextResponse.json({ error: `Connect ${provider.label} first.`, connect: true }, { status: 401 });
+  }
+
+  try {
+    const r = await provider.createDraft(
+      token,
+      { to: recipientList(to), cc: recipientList(cc), bcc: recipientList(bcc), subject, text, html },
+      AbortSignal.timeout(TIMEOUT_MS)
+    );
+    if (r.ok) return NextResponse.json({ provider: id, id: r.id, webLink: r.webLink });
+
+    console.error(`${provider.label} draft failed (${r.status}): ${r.error}`);
+    // expired or revoked token: drop it so the UI offers to connect again
+    if (r.status === 401 || r.status === 403) {
+      const res = NextResponse.json({ error: `${provider.label} session expired. Connect again.`, connect: true }, { status: 401 });
+      res.cookies.delete({ name: tokenCookie(id), path: "/api/drafts" });
+      return res;
+    }
+    return NextResponse.json({ error: `${provider.label} draft failed (${r.status}).` }, { status: 502 });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: `${provider.label} is unreachable.` }, { status: 502 });
+  }
+}
+
+// disconnect: forget the stored token
+export async function DELETE(req: NextRequest) {
+  const id = req.nextUrl.searchParams.get("provider");
+  if (!id || !(DRAFT_PROVIDER_IDS as readonly string[]).includes(id)) {
+    return NextResponse.json({ error: "Invalid input" }, { status: 400 });
+  }
+  const res = NextResponse.json({ ok: true });
+  res.cookies.delete({ name: tokenCookie(id as DraftProviderId), path: "/api/drafts" });
+  return res;
+}
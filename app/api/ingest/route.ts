@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { MAX_UPLOAD_BODY_BYTES, MAX_UPLOAD_BYTES, detectFormat, ingestFile } from "@/lib/ingest";
+import { rateLimit, readBodyBytes } from "@/lib/limits";
+
+const TOO_LARGE = `File is larger than ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB.`;
+
+/* =========================
+   Route handler
+   multipart/form-data with a "file" field, or the raw file as the body
+   with ?name=meeting.vtt
+   ========================= */
+export async function POST(req: NextRequest) {
+  const limited = await rateLimit(req, "ingest");
+  if (limited) return limited;
+
+  const body = await readBodyBytes(req, MAX_UPLOAD_BODY_BYTES);
+  if (!body) {
+    return NextResponse.json({ error: TOO_LARGE }, { status: 413 });
+  }
+
+  let name = req.nextUrl.searchParams.get("name") ?? "";
+  let data: ArrayBuffer | Uint8Array = body;
+  try {
+    const type = req.headers.get("content-type") ?? "";
+    if (type.startsWith("multipart/form-data")) {
+      const file = (await new Response(body, { headers: { "content-type": type } }).formData()).get("file");
+      if (!file || typeof file === "string") {
+        return NextResponse.json({ error: "Missing file" }, { status: 400 });
+      }
+      name = file.name;
+      data = await file.arrayBuffer();
+    }
+  } catch {
+    return NextResponse.json({ error: "Invalid input" }, { status: 400 });
+  }
+
+  if (data.byteLength > MAX_UPLOAD_BYTES) {
+    return NextResponse.json({ error: TOO_LARGE }, { status: 413 });
+  }
+  if (!detectFormat(name)) {
+    return NextResponse.json({ error: "Unsupported file type. Use .vtt, .srt, .docx, .md or .txt." }, { status: 415 });
+  }
+
+  try {
+    return NextResponse.json(await ingestFile(name, data));
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "Could not read file." }, { status: 422 });
+  }
+}
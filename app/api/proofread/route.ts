@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { LANGUAGE_IDS, languageToolCode } from "@/lib/i18n";
+import { rateLimit, readJsonBody } from "@/lib/limits";
+import { checkWithLanguageTool, checkWithRules, proofreadConfigFromEnv } from "@/lib/proofread";
+
+/* ---------- validation ---------- */
+const bodySchema = z.object({
+  text: z.string().min(1).max(20_000),
+  language: z.enum(LANGUAGE_IDS).default("en"),
+  locale: z.string().max(35).optional() // picks en-US vs en-GB
+});
+
+const TIMEOUT_MS = 15_000;
+
+/* =========================
+   Route handlers
+   The email text never leaves this server unless a LanguageTool URL is configured.
+   ========================= */
+export async function GET() {
+  return NextResponse.json({ engine: proofreadConfigFromEnv().engine });
+}
+
+export async function POST(req: NextRequest) {
+  const limited = await rateLimit(req, "proofread");
+  if (limited) return limited;
+  const body = await readJsonBody(req);
+  if (!body.ok) return body.response;
+  const parsed = bodySchema.safeParse(body.value);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid input" }, { status: 400 });
+  }
+  const { text, language, locale } = parsed.data;
+  const config = proofreadConfigFromEnv();
+
+  if (config.engine === "rules") {
+    return NextResponse.json({ engine: "rules", suggestions: checkWithRules(text, language) });
+  }
+
+  try {
+    const suggestions = await checkWithLanguageTool(config, text, languageToolCode(language, locale), AbortSignal.timeout(TIMEOUT_MS));
+    return NextResponse.json({ engine: "languagetool", suggestions });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "Proofreading service is unreachable." }, { status: 502 });
+  }
+}
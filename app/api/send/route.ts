@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { limitsConfigFromEnv, readJsonBody, rateLimit, requireApiKey } from "@/lib/limits";
+import {
+  checkConfirmToken,
+  confirmToken,
+  consumeConfirmToken,
+  messageDigest,
+  releaseConfirmToken,
+  sendPolicyFromEnv,
+  senderAllowed
+} from "@/lib/send";
+import { sendMail, smtpConfigFromEnv } from "@/lib/smtp";
+import { buildEml, formatAddress } from "@/utils/mime";
+import { isValidEmail, recipientList, validateRecipients } from "@/utils/recipients";
+
+/* ---------- validation ---------- */
+const recipients = z.string().max(5_000).default("");
+
+const bodySchema = z.object({
+  to: recipients,
+  cc: recipients,
+  bcc: recipients,
+  replyTo: z.string().max(320).optional(),
+  from: z.object({ name: z.string().max(200).optional(), email: z.string().max(320).optional() }).default({}),
+  subject: z.string().min(1).max(1_000),
+  text: z.string().min(1).max(200_000),
+  html: z.string().max(500_000).optional(),
+  confirmToken: z.string().max(200).optional()
+});
+
+const TIMEOUT_MS = 30_000;
+
+function config() {
+  const smtp = smtpConfigFromEnv();
+  const policy = sendPolicyFromEnv();
+  return smtp && policy ? { smtp, policy } : null;
+}
+
+/* =========================
+   Route handlers
+   POST without confirmToken returns the preview and a token for exactly that
+   message and caller; POST again with the token to send it. Both need one of
+   API_KEYS (x-api-key or Bearer): the relay must never be open to anyone.
+   ========================= */
+export async function GET() {
+  const c = config();
+  if (!c || !limitsConfigFromEnv().apiKeys.length) return NextResponse.json({ enabled: false });
+  return NextResponse.json({
+    enabled: true,
+    from: c.policy.from,
+    senders: c.policy.allowed.filter(a => !a.startsWith("@"))
+  });
+}
+
+export async function POST(req: NextRequest) {
+  const auth = requireApiKey(req);
+  if (!auth.ok) return auth.response;
+  const limited = await rateLimit(req, "send");
+  if (limited) return limited;
+
+  const body = await readJsonBody(req);
+  if (!body.ok) return body.response;
+  const parsed = bodySchema.safeParse(body.value);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid input" }, { status: 400 });
+  }
+  const { subject, text, html, confirmToken: token, ...input } = parsed.data;
+
+  const replyTo = input.replyTo?.trim() || undefined;
+  const bad = [input.to, input.cc, input.bcc].flatMap(r => validateRecipients(r).bad);
+  if (replyTo && !isValidEmail(replyTo)) bad.push(replyTo);
+  if (bad.length) {
+    return NextResponse.json({ error: `Invalid recipients: ${bad.join(", ")}` }, { status: 400 });
+  }
+  const to = recipientList(input.to);
+  const cc = recipientList(input.cc);
+  const bcc = recipientList(input.bcc);
+
+  const c = config();
+  if (!c) {
+    return NextResponse.json({ error: "Sending is not configured." }, { status: 501 });
+  }
+  const count = new Set([...to, ...cc, ...bcc].map(e => e.toLowerCase())).size;
+  if (!to.length || count > c.policy.maxRecipients) {
+    return NextResponse.json(
+      { error: to.length ? `At most ${c.policy.maxRecipients} recipients per message.` : "Add at least one recipient." },
+      { status: 400 }
+    );
+  }
+  const fromEmail = input.from.email?.trim() || c.policy.from;
+  if (!isValidEmail(fromEmail) || !senderAllowed(c.policy, fromEmail)) {
+    return NextResponse.json({ error: "This sender address is not allowed." }, { status: 403 });
+  }
+  const from = formatAddress(fromEmail, input.from.name?.trim() || c.policy.fromName);
+
+  const message = { from, to, cc, bcc, replyTo, subject, text, html: html ?? null };
+  // a token is only good for the key that previewed the message
+  const digest = messageDigest({ caller: auth.caller, ...message });
+
+  if (!token) {
+    const issued = confirmToken(c.policy, digest);
+    return NextResponse.json({
+      preview: { from, to, cc, bcc, replyTo, subject, recipients: count },
+      confirmToken: issued.token,
+      expiresAt: issued.expiresAt
+    });
+  }
+  const check = checkConfirmToken(c.policy, token, digest);
+  if (check !== "ok") {
+    const error = check === "expired" ? "The preview expired. Review the message again." : "The message changed since the preview. Review it again.";
+    return NextResponse.json({ error }, { status: 409 });
+  }
+  if (!consumeConfirmToken(token)) {
+    return NextResponse.json({ error: "This message was already sent." }, { status: 409 });
+  }
+
+  const messageId = `<${randomUUID()}@${fromEmail.split("@")[1]}>`;
+  const eml = buildEml({
+    from,
+    // one address per folded line keeps long lists under the 998-char line limit
+    to: to.join(",\r\n "),
+    cc: cc.join(",\r\n "),
+    replyTo,
+    subject,
+    text,
+    html,
+    messageId
+  });
+
+  try {
+    const r = await sendMail(c.smtp, { from: fromEmail, recipients: [...to, ...cc, ...bcc] }, eml, AbortSignal.timeout(TIMEOUT_MS));
+    return NextResponse.json({ sent: true, messageId, rejected: r.rejected });
+  } catch (e: any) {
+    console.error(e);
+    releaseConfirmToken(token);
+    const refused = /^SMTP /.test(e?.message ?? "");
+    return NextResponse.json(
+      { error: refused ? `The mail relay refused the message: ${e.message.replace(/^SMTP /, "")}` : "Mail relay is unreachable." },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { actionSchema } from "@/lib/extraction";
+import { limitsConfigFromEnv, rateLimit, readJsonBody, requireApiKey } from "@/lib/limits";
+import { parseOwnerMap, toIssues, type OwnerMap } from "@/utils/trackers";
+
+/* ---------- config ---------- */
+type TrackerConfig = { url: string; token?: string; owners: OwnerMap };
+
+// TRACKER_OWNER_MAP: JSON object {"Anna Smith":"asmith"} or "Anna Smith = asmith" lines
+function ownersFromEnv(raw?: string): OwnerMap {
+  if (!raw?.trim()) return {};
+  try {
+    const obj = JSON.parse(raw);
+    if (obj && typeof obj === "object") {
+      return Object.fromEntries(Object.entries(obj).map(([k, v]) => [k.toLowerCase(), String(v)]));
+    }
+  } catch {}
+  return parseOwnerMap(raw.replace(/[,;]\s*/g, "\n"));
+}
+
+function trackerConfigFromEnv(env = process.env): TrackerConfig | null {
+  const url = env.TRACKER_WEBHOOK_URL?.trim();
+  if (!url) return null;
+  return { url, token: env.TRACKER_WEBHOOK_TOKEN || undefined, owners: ownersFromEnv(env.TRACKER_OWNER_MAP) };
+}
+
+/* ---------- validation ---------- */
+const bodySchema = z.object({
+  title: z.string().optional(),
+  date: z.string().optional(),
+  actions: z.array(actionSchema).min(1).max(200),
+  owners: z.record(z.string().max(200), z.string().max(200)).optional() // per-user overrides
+});
+
+const TIMEOUT_MS = 10_000;
+
+/* =========================
+   Route handlers
+   POST files issues with the server's webhook token, so it needs one of
+   API_KEYS (x-api-key or Bearer) like /api/send.
+   ========================= */
+export async function GET() {
+  return NextResponse.json({ webhook: !!trackerConfigFromEnv() && limitsConfigFromEnv().apiKeys.length > 0 });
+}
+
+export async function POST(req: NextRequest) {
+  const auth = requireApiKey(req);
+  if (!auth.ok) return auth.response;
+  const limited = await rateLimit(req, "trackers");
+  if (limited) return limited;
+
+  const config = trackerConfigFromEnv();
+  if (!config) {
+    return NextResponse.json({ error: "Tracker webhook is not configured." }, { status: 501 });
+  }
+
+  const body = await readJsonBody(req);
+  if (!body.ok) return body.response;
+  const parsed = bodySchema.safeParse(body.value);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid input" }, { status: 400 });
+  }
+  const { actions, owners, ...meeting } = parsed.data;
+  const table: OwnerMap = { ...config.owners };
+  for (const [k, v] of Object.entries(owners ?? {})) table[k.toLowerCase()] = v;
+  const issues = toIssues(actions, meeting, table);
+
+  try {
+    const res = await fetch(config.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(config.token ? { Authorization: `Bearer ${config.token}` } : {})
+      },
+      body: JSON.stringify({ source: "notes-to-email", meeting, issues }),
+      signal: AbortSignal.timeout(TIMEOUT_MS)
+    });
+    if (!res.ok) {
+      console.error(`Tracker webhook responded ${res.status}`);
+      return NextResponse.json({ error: `Tracker webhook failed (${res.status}).` }, { status: 502 });
+    }
+    return NextResponse.json({ sent: issues.length });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: "Tracker webhook unreachable." }, { status: 502 });
+  }
+}
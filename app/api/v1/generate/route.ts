@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { estimateTokens, limitsConfigFromEnv, rateLimit, readJsonBody, reserveSpend } from "@/lib/limits";
+import { llmConfigFromEnv } from "@/lib/llm";
+import { OUTPUT_FORMATS, renderOutput, type OutputFormat } from "@/lib/output";
+import { generateEmail, modelCalls, prepareGenerate, type Prepared } from "@/lib/pipeline";
+import { isValidEmail, validateRecipients } from "@/utils/recipients";
+
+/* ---------- validation ---------- */
+const VERSION = 1;
+const MAX_BATCH = Number(process.env.API_BATCH_MAX) || 20;
+
+// the UI always sends these; API callers may leave them out
+const ITEM_DEFAULTS = { audience: "internal", tone: "concise", type: "follow-up", length: "medium" };
+
+const recipients = z.string().max(5_000).optional();
+
+// per item, next to the generate fields (title, notes, tone…), which lib/pipeline validates
+const addressingSchema = z.object({
+  id: z.string().max(200).optional(),
+  to: recipients,
+  cc: recipients,
+  bcc: recipients,
+  from: z.string().max(320).optional(),
+  fromName: z.string().max(200).optional()
+});
+
+const requestSchema = z.object({
+  format: z.enum(OUTPUT_FORMATS).default("json"),
+  items: z.array(z.record(z.unknown())).min(1).max(MAX_BATCH).optional(),
+  defaults: z.record(z.unknown()).default({}) // shared by every item in a batch
+});
+
+type Item = { id: string; addressing: z.infer<typeof addressingSchema>; ready: Prepared };
+
+function prepareItem(raw: Record<string, unknown>, index: number): Item {
+  const parsed = addressingSchema.safeParse(raw);
+  const id = (parsed.success && parsed.data.id) || String(index + 1);
+  if (!parsed.success) return { id, addressing: {}, ready: { ok: false, error: "Invalid input", status: 400 } };
+  const a = parsed.data;
+  const bad = [a.to, a.cc, a.bcc].flatMap(r => validateRecipients(r ?? "").bad);
+  if (a.from && !isValidEmail(a.from)) bad.push(a.from);
+  if (bad.length) return { id, addressing: a, ready: { ok: false, error: `Invalid recipients: ${bad.join(", ")}`, status: 400 } };
+  return { id, addressing: a, ready: prepareGenerate(raw) };
+}
+
+/* =========================
+   Route handlers
+   POST /api/v1/generate  { format, ...item }              -> one email in `format`
+   POST /api/v1/generate  { format, defaults, items: [] }  -> { version, results: [...] }
+   ========================= */
+export async function GET() {
+  let engine = "offline";
+  try {
+    if (llmConfigFromEnv()) engine = "llm";
+  } catch {
+    engine = "misconfigured";
+  }
+  return NextResponse.json({ version: VERSION, formats: OUTPUT_FORMATS, maxBatch: MAX_BATCH, engine });
+}
+
+export async function POST(req: NextRequest) {
+  const limited = await rateLimit(req, "v1");
+  if (limited) return limited;
+  const body = await readJsonBody(req);
+  if (!body.ok) return body.response;
+  const parsed = requestSchema.safeParse(body.value);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid input", version: VERSION }, { status: 400 });
+  }
+  const { format, items: batch, defaults } = parsed.data;
+  const raw = batch
+    ? batch.map(i => ({ ...ITEM_DEFAULTS, ...defaults, ...i }))
+    : [{ ...ITEM_DEFAULTS, ...(body.value as Record<string, unknown>) }];
+  const items = raw.map(prepareItem);
+
+  // every model-backed item counts as a request (the first was taken above),
+  // and the whole batch is booked against the daily cap before anything runs
+  const llmNotes = items.flatMap(i => (i.ready.ok && i.ready.config ? [i.ready.p.notes] : []));
+  if (llmNotes.length > 1) {
+    const more = await rateLimit(req, "v1", limitsConfigFromEnv(), llmNotes.length - 1);
+    if (more) return more;
+  }
+  if (llmNotes.length) {
+    const tokens = llmNotes.reduce((n, notes) => n + estimateTokens(notes, modelCalls(notes)), 0);
+    const capped = await reserveSpend(tokens);
+    if (capped) return capped;
+  }
+
+  if (!batch) {
+    const [item] = items;
+    if (!item.ready.ok) return NextResponse.json({ error: item.ready.error, version: VERSION }, { status: item.ready.status });
+    try {
+      const result = await generateEmail(item.ready.p, { config: item.ready.config, signal: req.signal });
+      if (format === "json") return NextResponse.json({ version: VERSION, ...result });
+      const out = renderOutput(result, format, item.addressing);
+      return new NextResponse(out.content, { headers: { "Content-Type": out.mime } });
+    } catch (e) {
+      console.error(e);
+      return NextResponse.json({ error: "Generation failed.", version: VERSION }, { status: 500 });
+    }
+  }
+
+  // one at a time: a batch should not open a burst of parallel model calls
+  const results = [];
+  for (const item of items) {
+    if (req.signal.aborted) break;
+    results.push(await runItem(item, format, req.signal));
+  }
+  return NextResponse.json({ version: VERSION, format, results });
+}
+
+async function runItem(item: Item, format: OutputFormat, signal: AbortSignal) {
+  if (!item.ready.ok) return { id: item.id, ok: false, error: item.ready.error, status: item.ready.status };
+  try {
+    const result = await generateEmail(item.ready.p, { config: item.ready.config, signal });
+    if (format === "json") return { id: item.id, ok: true, result };
+    return { id: item.id, ok: true, subject: result.subject, output: renderOutput(result, format, item.addressing).content };
+  } catch (e) {
+    console.error(e);
+    return { id: item.id, ok: false, error: "Generation failed.", status: 500 };
+  }
+}
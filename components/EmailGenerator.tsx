@@ -1,13 +1,54 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { buildEml } from "@/utils/mime";
+import { sanitizeRecipients, validateRecipients } from "@/utils/recipients";
+import {
+  addRecipients,
+  parseAddressBook,
+  participantsWithAddresses,
+  recipientGroupSchema,
+  resolveParticipants,
+  unknownOwners,
+  type Contact,
+  type RecipientGroup
+} from "@/utils/addressbook";
+import { buildIcs, type IcsKind } from "@/utils/ics";
+import { TRACKER_FORMATS, exportActions, parseOwnerMap, type TrackerFormat } from "@/utils/trackers";
+import type { Action } from "@/utils/format";
+import ExtractionEditor from "@/components/ExtractionEditor";
+import HistoryPanel from "@/components/HistoryPanel";
+import TemplateSettings from "@/components/TemplateSettings";
+import ProofreadPanel from "@/components/ProofreadPanel";
+import RecipientSettings from "@/components/RecipientSettings";
+import { historyEnabled, listEntries, newEntryId, saveEntry, type HistoryEntry } from "@/utils/history";
+import { carryOver, seriesKey } from "@/lib/series";
+import { LANGUAGES, type Language } from "@/lib/i18n";
+import { acceptSuggestion, type Suggestion } from "@/lib/proofread";
+import { splitTerms, type RedactionAudit } from "@/lib/redact";
+import { BUILTIN_TEMPLATES, senderSchema, templateSchema, type EmailTemplate, type Sender } from "@/lib/templates";
+import type { Extraction } from "@/lib/extraction";
+import { normalizeExtraction, renderEmail } from "@/lib/compose";
+import { diffLines, type DiffLine } from "@/utils/diff";
+import { readEvents, type GenerateStage } from "@/lib/stream";
+import { INGEST_ACCEPT, MAX_UPLOAD_BYTES, ingestFile } from "@/lib/ingest";
+import type { DraftProviderId } from "@/lib/drafts";
 
 type Extracted = {
   subject: string;
   body: string;
-  actions?: { owner: string; task: string; due: string }[];
+  html?: string;
+  actions?: Action[];
+  extraction?: Extraction;
+  validation?: { repaired: boolean; dropped: string[] };
+  redaction?: RedactionAudit;
 };
 
+// switching these re-renders from the cached extraction instead of calling the model
+const STYLE_KEYS: (keyof Values)[] = ["audience", "tone", "type", "length", "templateName", "language"];
+
+type SendPreview = { from: string; to: string[]; cc: string[]; bcc: string[]; replyTo?: string; subject: string; recipients: number };
+
 type Values = {
   title: string;
   date: string;
@@ -16,15 +57,30 @@ type Values = {
   tone: "concise" | "formal" | "friendly" | "persuasive" | "casual";
   type: "summary" | "follow-up" | "action-only";
   length: "short" | "medium" | "long";
+  templateName: string;
+  language: Language;
   notes: string;
   to: string;
+  cc: string;
+  bcc: string;
 };
 
+type Recipients = { to: string; cc: string; bcc: string };
+
 const SAMPLE_NOTES = `- Design ready; backend ~2 weeks behind
 - Anna to draft client comms by Fri
 - Need legal review of Terms update
 - Client wants weekly status`;
 
+const STAGE_LABEL: Record<GenerateStage, string> = {
+  validating: "Checking input…",
+  extracting: "Extracting decisions and actions…",
+  repairing: "Fixing a malformed answer…",
+  composing: "Composing email…"
+};
+
+const EMPTY_EXTRACTION: Extraction = { summary: "", context: "", decisions: [], actions: [], questions: [], previous: [] };
+
 const TONE_PREVIEW: Record<Values["tone"], { intro: string; signoff: string }> = {
   concise: { intro: "Quick summary below. Highlights + next steps.", signoff: "Thanks!" },
   formal: { intro: "Please find a concise summary of today’s discussion below.", signoff: "Best regards," },
@@ -65,43 +121,67 @@ function makeSafeSessionStorage(): SafeStore {
 }
 const sessionSafe = makeSafeSessionStorage();
 
+// owner → tracker username table is configuration, so it outlives the tab
+const OWNERS_KEY = "nte_tracker_owners_v1";
+const TEMPLATES_KEY = "nte_templates_v1";
+const SENDER_KEY = "nte_sender_v1";
+const REDACT_TERMS_KEY = "nte_redact_terms_v1";
+const SEND_KEY = "nte_send_v1"; // { from, replyTo }
+const ACCESS_KEY_KEY = "nte_access_key_v1"; // one of the server's API_KEYS; session only
+const ADDRESS_BOOK_KEY = "nte_address_book_v1";
+const GROUPS_KEY = "nte_recipient_groups_v1";
+
 /* =========================
    Helpers
    ========================= */
-function downloadEML(subject: string, body: string, to: string) {
-  const date = new Date().toUTCString();
-  const headers = [
-    `Date: ${date}`,
-    `To: ${to || ""}`,
-    `Subject: ${subject}`,
-    `MIME-Version: 1.0`,
-    `Content-Type: text/plain; charset=UTF-8`,
-    `Content-Transfer-Encoding: 8bit`
-  ].join("\r\n");
-  const eml = headers + "\r\n\r\n" + body.replace(/\n/g, "\r\n");
-  const blob = new Blob([eml], { type: "message/rfc822" });
+function downloadFile(name: string, content: string, type: string) {
+  const blob = new Blob([content], { type });
   const a = document.createElement("a");
   a.href = URL.createObjectURL(blob);
-  a.download = (subject || "email").replace(/[^\w\-]+/g, "_") + ".eml";
+  a.download = name.replace(/[^\w\-.]+/g, "_");
   document.body.appendChild(a);
   a.click();
   a.remove();
 }
-function sanitizeRecipients(raw: string): string {
-  if (!raw) return "";
-  return raw
-    .split(/[,;]+/)
-    .map(e => e.trim())
-    .filter(Boolean)
-    .join(",");
+function recipientsOf(v: Values): Recipients {
+  return { to: sanitizeRecipients(v.to), cc: sanitizeRecipients(v.cc), bcc: sanitizeRecipients(v.bcc) };
+}
+function downloadEML(subject: string, body: string, html: string | undefined, r: Recipients) {
+  const eml = buildEml({ ...r, subject, text: body, html });
+  downloadFile((subject || "email") + ".eml", eml, "message/rfc822");
+}
+function downloadICS(values: Values, actions: Action[], kind: IcsKind, book: Contact[]) {
+  const participants = participantsWithAddresses(values.participants, book);
+  const ics = buildIcs({ title: values.title, date: values.date, participants, actions, kind });
+  downloadFile((values.title || "actions") + ".ics", ics, "text/calendar");
 }
-function isValidEmail(email: string) {
-  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+function downloadTracker(values: Values, actions: Action[], format: TrackerFormat, owners: string) {
+  const file = exportActions(format, actions, { title: values.title, date: values.date }, parseOwnerMap(owners));
+  downloadFile(file.filename, file.content, file.mime);
+}
+// transcript speakers join the participants list unless already named there
+function mergeParticipants(current: string, speakers: string[]): string {
+  const list = current.split(/[,;]+/).map(p => p.trim()).filter(Boolean);
+  const known = new Set(list.map(p => p.replace(/<[^>]*>/g, "").trim().toLowerCase()));
+  return [...list, ...speakers.filter(s => !known.has(s.toLowerCase()))].join(", ");
+}
+// dates render in the reader's locale; "today" (for overdue flags) in their zone
+function dateFormat() {
+  try {
+    return { locale: navigator.language, timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone };
+  } catch {
+    return {};
+  }
 }
-function validateRecipients(raw: string): { ok: boolean; bad: string[] } {
-  const list = sanitizeRecipients(raw).split(",").filter(Boolean);
-  const bad = list.filter(e => !isValidEmail(e));
-  return { ok: bad.length === 0, bad };
+// blank rows from the section editor would fail server validation
+function cleanExtraction(x: Extraction): Extraction {
+  const keep = (items: string[]) => items.map(i => i.trim()).filter(Boolean);
+  return {
+    ...x,
+    decisions: keep(x.decisions),
+    questions: keep(x.questions),
+    actions: x.actions.filter(a => a.task.trim())
+  };
 }
 function toast(msg: string) {
   const el = document.createElement("div");
@@ -120,48 +200,30 @@ async function copyToClipboard(text: string) {
   }
   toast("Copied!");
 }
-async function grammarCheck(text: string) {
-  const res = await fetch("https://api.languagetool.org/v2/check", {
-    method: "POST",
-    headers: { "Content-Type": "application/x-www-form-urlencoded" },
-    body: new URLSearchParams({
-      text,
-      language: "en-GB" // or en-US
-    })
-  });
-  const data = await res.json();
-  // apply suggestions (simple inline patch)
-  let fixed = text;
-  for (const m of (data.matches || []).reverse()) {
-    const r = m.replacements?.[0]?.value;
-    if (!r) continue;
-    const offset = m.offset;
-    const length = m.length;
-    fixed = fixed.slice(0, offset) + r + fixed.slice(offset + length);
-  }
-  return fixed;
-}
-
 /* =========================
    Compose links (no OAuth)
    ========================= */
 function encodeParam(v: string) { return encodeURIComponent(v || ""); }
 function trimSubject(s: string) { return s.replace(/\r?\n/g, " ").trim().slice(0, 200); }
+// "&cc=…&bcc=…", leaving out empty fields
+function copyParams(r: Recipients) {
+  return (r.cc ? `&cc=${encodeParam(r.cc)}` : "") + (r.bcc ? `&bcc=${encodeParam(r.bcc)}` : "");
+}
 
-function openGmail(to: string, subject: string, body: string) {
-  const url = `https://mail.google.com/mail/?view=cm&fs=1&tf=1&to=${encodeParam(to)}&su=${encodeParam(trimSubject(subject))}&body=${encodeParam(body)}`;
+function openGmail(r: Recipients, subject: string, body: string) {
+  const url = `https://mail.google.com/mail/?view=cm&fs=1&tf=1&to=${encodeParam(r.to)}${copyParams(r)}&su=${encodeParam(trimSubject(subject))}&body=${encodeParam(body)}`;
   window.open(url, "_blank");
 }
-function openOutlook(to: string, subject: string, body: string) {
-  const url = `https://outlook.live.com/owa/?path=/mail/action/compose&to=${encodeParam(to)}&subject=${encodeParam(trimSubject(subject))}&body=${encodeParam(body)}`;
+function openOutlook(r: Recipients, subject: string, body: string) {
+  const url = `https://outlook.live.com/owa/?path=/mail/action/compose&to=${encodeParam(r.to)}${copyParams(r)}&subject=${encodeParam(trimSubject(subject))}&body=${encodeParam(body)}`;
   window.open(url, "_blank");
 }
-function openYahoo(to: string, subject: string, body: string) {
-  const url = `https://compose.mail.yahoo.com/?to=${encodeParam(to)}&subject=${encodeParam(trimSubject(subject))}&body=${encodeParam(body)}`;
+function openYahoo(r: Recipients, subject: string, body: string) {
+  const url = `https://compose.mail.yahoo.com/?to=${encodeParam(r.to)}${copyParams(r)}&subject=${encodeParam(trimSubject(subject))}&body=${encodeParam(body)}`;
   window.open(url, "_blank");
 }
-function openMailto(to: string, subject: string, body: string) {
-  const href = `mailto:${encodeParam(to)}?subject=${encodeParam(trimSubject(subject))}&body=${encodeParam(body)}`;
+function openMailto(r: Recipients, subject: string, body: string) {
+  const href = `mailto:${encodeParam(r.to)}?subject=${encodeParam(trimSubject(subject))}${copyParams(r)}&body=${encodeParam(body)}`;
   window.location.href = href;
 }
 
@@ -172,12 +234,46 @@ export default function EmailGenerator() {
   const [values, setValues] = useState<Values>({
     title: "", date: "", participants: "",
     audience: "internal", tone: "concise", type: "follow-up",
-    length: "medium", notes: "", to: ""
+    length: "medium", templateName: "Default", language: "en", notes: "", to: "", cc: "", bcc: ""
   });
   const [loading, setLoading] = useState(false);
+  const [stage, setStage] = useState<GenerateStage | null>(null);
+  const [part, setPart] = useState<{ part: number; parts: number } | null>(null); // long notes are extracted in parts
+  const [partial, setPartial] = useState<Extraction | null>(null); // sections streamed so far
+  const abortRef = useRef<AbortController | null>(null);
   const [result, setResult] = useState<Extracted | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [previewOpen, setPreviewOpen] = useState<boolean>(true);
+  const [sectionsOpen, setSectionsOpen] = useState<boolean>(false);
+  const [extractedFrom, setExtractedFrom] = useState<string>(""); // notes the cached extraction came from
+  const [extractedIn, setExtractedIn] = useState<Language>("en"); // output language of the cached extraction
+  const [lastChange, setLastChange] = useState<{ prev: { values: Values; result: Extracted; edited: boolean }; diff: DiffLine[] } | null>(null);
+  // subject or body typed over since the last render; a restyle asks before replacing them
+  const [edited, setEdited] = useState(false);
+  const [trackerFormat, setTrackerFormat] = useState<TrackerFormat>("csv");
+  const [owners, setOwners] = useState<string>(""); // "Anna Smith = asmith" per line
+  const [webhook, setWebhook] = useState<boolean>(false);
+  const [imported, setImported] = useState<string>(""); // last uploaded file summary
+  const [historyId, setHistoryId] = useState<string | null>(null); // saved entry the preview belongs to
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [series, setSeries] = useState<{ entry: HistoryEntry; carried: Action[] } | null>(null); // last meeting with this title
+  const [carry, setCarry] = useState<boolean>(true);
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]); // custom templates; built-ins live in lib/templates
+  const [sender, setSender] = useState<Sender>({ name: "" });
+  const [suggestions, setSuggestions] = useState<Suggestion[] | null>(null); // open proofreading results
+  const [checking, setChecking] = useState(false);
+  const [redactTerms, setRedactTerms] = useState<string>(""); // confidential terms, one per line
+  const [draftProviders, setDraftProviders] = useState<{ id: DraftProviderId; label: string; connected: boolean }[]>([]);
+  const [drafting, setDrafting] = useState<DraftProviderId | null>(null);
+  const [resumeDraft, setResumeDraft] = useState<DraftProviderId | null>(null); // create once the popup reports back
+  const [draftLink, setDraftLink] = useState<{ label: string; url: string } | null>(null);
+  const [sendInfo, setSendInfo] = useState<{ enabled: boolean; from?: string; senders?: string[] }>({ enabled: false });
+  const [sendOpts, setSendOpts] = useState<{ from: string; replyTo: string }>({ from: "", replyTo: "" });
+  const [pendingSend, setPendingSend] = useState<{ preview: SendPreview; confirmToken: string; payload: object } | null>(null);
+  const [sending, setSending] = useState(false);
+  const [accessKey, setAccessKey] = useState("");
+  const [addressBook, setAddressBook] = useState<string>(""); // "Name = email" per line
+  const [groups, setGroups] = useState<RecipientGroup[]>([]);
 
   const toneTip = TONE_PREVIEW[values.tone];
 
@@ -187,7 +283,7 @@ export default function EmailGenerator() {
     try { window.localStorage.removeItem("nte_values_v2"); } catch {}
     const saved = sessionSafe.get(STORAGE_KEY);
     if (saved) {
-      try { setValues(JSON.parse(saved)); } catch {}
+      try { setValues(v => ({ ...v, ...JSON.parse(saved) })); } catch {}
     }
   }, []);
   useEffect(() => { sessionSafe.set(STORAGE_KEY, JSON.stringify(values)); }, [values]);
@@ -197,6 +293,78 @@ export default function EmailGenerator() {
     return () => window.removeEventListener("pagehide", onPageHide);
   }, []);
 
+  useEffect(() => {
+    try { setOwners(window.localStorage.getItem(OWNERS_KEY) ?? ""); } catch {}
+    try { setRedactTerms(window.localStorage.getItem(REDACT_TERMS_KEY) ?? ""); } catch {}
+    fetch("/api/trackers").then(r => r.json()).then(d => setWebhook(!!d.webhook)).catch(() => {});
+    fetch("/api/drafts").then(r => r.json()).then(d => setDraftProviders(d.providers ?? [])).catch(() => {});
+    fetch("/api/send").then(r => r.json()).then(d => setSendInfo(d)).catch(() => {});
+    try { setSendOpts(o => ({ ...o, ...JSON.parse(window.localStorage.getItem(SEND_KEY) ?? "{}") })); } catch {}
+    setAccessKey(sessionSafe.get(ACCESS_KEY_KEY) ?? "");
+    try { setAddressBook(window.localStorage.getItem(ADDRESS_BOOK_KEY) ?? ""); } catch {}
+    try {
+      const raw = JSON.parse(window.localStorage.getItem(GROUPS_KEY) ?? "[]");
+      setGroups((Array.isArray(raw) ? raw : []).flatMap((g: unknown) => {
+        const r = recipientGroupSchema.safeParse(g);
+        return r.success ? [r.data] : [];
+      }));
+    } catch {}
+  }, []);
+  function saveOwners(v: string) {
+    setOwners(v);
+    try { window.localStorage.setItem(OWNERS_KEY, v); } catch {}
+  }
+  function saveAddressBook(v: string) {
+    setAddressBook(v);
+    try { window.localStorage.setItem(ADDRESS_BOOK_KEY, v); } catch {}
+  }
+  function saveGroups(next: RecipientGroup[]) {
+    setGroups(next);
+    try { window.localStorage.setItem(GROUPS_KEY, JSON.stringify(next)); } catch {}
+  }
+  function saveRedactTerms(v: string) {
+    setRedactTerms(v);
+    try { window.localStorage.setItem(REDACT_TERMS_KEY, v); } catch {}
+  }
+
+  // stored templates are re-validated; anything that no longer parses is dropped
+  useEffect(() => {
+    try {
+      const raw = JSON.parse(window.localStorage.getItem(TEMPLATES_KEY) ?? "[]");
+      setTemplates((Array.isArray(raw) ? raw : []).flatMap((t: unknown) => {
+        const r = templateSchema.safeParse(t);
+        return r.success ? [r.data] : [];
+      }));
+    } catch {}
+    try {
+      const r = senderSchema.safeParse(JSON.parse(window.localStorage.getItem(SENDER_KEY) ?? "null"));
+      if (r.success) setSender(r.data);
+    } catch {}
+  }, []);
+  function saveTemplates(next: EmailTemplate[], select?: string) {
+    setTemplates(next);
+    try { window.localStorage.setItem(TEMPLATES_KEY, JSON.stringify(next)); } catch {}
+    if (!select) return;
+    const v = { ...values, templateName: select };
+    setValues(v);
+    restyle(v, sender, next);
+  }
+  function saveSender(next: Sender) {
+    setSender(next);
+    try { window.localStorage.setItem(SENDER_KEY, JSON.stringify(next)); } catch {}
+    restyle(values, next);
+  }
+
+  /* ---- Template + sender options shared by every render ---- */
+  function styleOptions(v: Values, s: Sender = sender, custom: EmailTemplate[] = templates) {
+    const template = [...BUILTIN_TEMPLATES, ...custom].find(t => t.name === v.templateName);
+    return {
+      ...dateFormat(),
+      template: template && template.name !== "Default" ? template : undefined,
+      sender: s.name.trim() || s.signature?.trim() ? s : undefined
+    };
+  }
+
   /* ---- Shortcuts ---- */
   useEffect(() => {
     function onKey(e: KeyboardEvent) {
@@ -214,7 +382,30 @@ export default function EmailGenerator() {
   }, [result]);
 
   function set<K extends keyof Values>(k: K, v: Values[K]) {
-    setValues(prev => ({ ...prev, [k]: v }));
+    const next = { ...values, [k]: v };
+    setValues(next);
+    if (STYLE_KEYS.includes(k)) restyle(next);
+  }
+
+  /* ---- Instant re-render from the cached extraction ---- */
+  function restyle(next: Values, s: Sender = sender, custom: EmailTemplate[] = templates) {
+    if (!result?.extraction) return;
+    const opts = { ...next, ...styleOptions(next, s, custom) };
+    const rendered = renderEmail(opts, normalizeExtraction(cleanExtraction(result.extraction), opts));
+    if (rendered.body === result.body && rendered.subject === result.subject) return;
+    if (edited && !window.confirm("Replace your edits to the email with the restyled version? Keep them with Cancel.")) return;
+    setLastChange({ prev: { values, result, edited }, diff: diffLines(result.body, rendered.body) });
+    setResult({ ...result, ...rendered });
+    setEdited(false);
+    setSuggestions(null);
+    if (historyId) remember(historyId, next, { ...result, ...rendered });
+  }
+  function undoRestyle() {
+    if (!lastChange) return;
+    setValues(lastChange.prev.values);
+    setResult(lastChange.prev.result);
+    setEdited(lastChange.prev.edited);
+    setLastChange(null);
   }
 
   /* ---- Generate ---- */
@@ -227,19 +418,80 @@ export default function EmailGenerator() {
     }
     setLoading(true);
     setResult(null);
+    setSuggestions(null);
+    setDraftLink(null);
+    setStage(null);
+    setPart(null);
+    setPartial(null);
+    const ctrl = new AbortController();
+    abortRef.current = ctrl;
     try {
       const payload = {
         title: values.title, date: values.date, participants: values.participants,
         audience: values.audience, tone: values.tone, type: values.type,
-        length: values.length, notes: values.notes
+        length: values.length, language: values.language, notes: values.notes, ...styleOptions(values),
+        previousActions: carry && series ? series.carried : [],
+        redactTerms: splitTerms(redactTerms)
       };
-      const res = await fetch("/api/generate", {
+      const res = await fetch("/api/generate?stream=1", {
+        method: "POST", headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+        signal: ctrl.signal
+      });
+      if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || `Generation failed (${res.status}).`);
+      let data: Extracted | null = null;
+      await readEvents(res, (evt) => {
+        if (evt.type === "stage") {
+          setStage(evt.stage);
+          if (evt.part && evt.parts) setPart({ part: evt.part, parts: evt.parts });
+        }
+        else if (evt.type === "section") setPartial(prev => ({ ...(prev ?? EMPTY_EXTRACTION), [evt.key]: evt.value }));
+        else if (evt.type === "result") data = evt.data as Extracted;
+        else if (evt.type === "error") throw new Error(evt.error);
+      });
+      if (!data) throw new Error("Generation ended early.");
+      setResult(data); setPreviewOpen(true);
+      setExtractedFrom(values.notes); setExtractedIn(values.language); setLastChange(null); setEdited(false);
+      const id = newEntryId();
+      setHistoryId(id);
+      remember(id, values, data);
+    } catch (err: any) {
+      if (ctrl.signal.aborted) setError("Generation cancelled.");
+      else setError(err.message || "Something went wrong.");
+    } finally {
+      abortRef.current = null;
+      setLoading(false);
+      setStage(null);
+      setPart(null);
+      setPartial(null);
+    }
+  }
+
+  function onCancel() {
+    abortRef.current?.abort();
+  }
+
+  /* ---- Re-render edited sections (no model call) ---- */
+  async function onRecompose() {
+    if (!result?.extraction) return;
+    setError(null);
+    setLoading(true);
+    try {
+      const payload = {
+        title: values.title, date: values.date, participants: values.participants,
+        audience: values.audience, tone: values.tone, type: values.type,
+        length: values.length, language: values.language, extraction: cleanExtraction(result.extraction), ...styleOptions(values)
+      };
+      const res = await fetch("/api/compose", {
         method: "POST", headers: { "Content-Type": "application/json" },
         body: JSON.stringify(payload)
       });
       if (!res.ok) throw new Error(await res.text());
       const data = await res.json();
-      setResult(data); setPreviewOpen(true);
+      setResult({ ...data, validation: result.validation });
+      setEdited(false);
+      setSuggestions(null);
+      if (historyId) remember(historyId, values, data);
     } catch (err: any) {
       setError(err.message || "Something went wrong.");
     } finally {
@@ -247,6 +499,260 @@ export default function EmailGenerator() {
     }
   }
 
+  /* ---- Proofreading (server-side; accept or ignore each suggestion) ---- */
+  async function onProofread() {
+    if (!result) return;
+    setError(null);
+    setChecking(true);
+    try {
+      const res = await fetch("/api/proofread", {
+        method: "POST", headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text: result.body, language: values.language, locale: navigator.language })
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Proofreading failed.");
+      setSuggestions(data.suggestions);
+      if (!data.suggestions.length) toast("No issues found");
+    } catch (err: any) {
+      setError(err.message || "Something went wrong.");
+    } finally {
+      setChecking(false);
+    }
+  }
+  function onAcceptSuggestion(id: string, replacement: string) {
+    if (!result || !suggestions) return;
+    const next = acceptSuggestion(result.body, suggestions, id, replacement);
+    setResult({ ...result, body: next.text, html: undefined });
+    setEdited(true);
+    setSuggestions(next.suggestions);
+  }
+
+  /* ---- History (opt-in, IndexedDB) ---- */
+  async function remember(id: string, v: Values, r: Extracted) {
+    if (!historyEnabled()) return;
+    try {
+      await saveEntry({ id, createdAt: new Date().toISOString(), values: v, extraction: r.extraction, subject: r.subject, body: r.body, html: r.html });
+      setHistoryVersion(n => n + 1);
+    } catch (err) {
+      console.error(err);
+    }
+  }
+  // meetings with the same title (dates and numbers ignored) form a series
+  useEffect(() => {
+    const key = seriesKey(values.title);
+    if (!key || !historyEnabled()) { setSeries(null); return; }
+    let live = true;
+    listEntries()
+      .then(entries => {
+        const prev = entries.find(e => e.id !== historyId && e.extraction && seriesKey(e.values.title) === key);
+        const carried = prev?.extraction ? carryOver(prev.extraction) : [];
+        if (live) setSeries(prev && carried.length ? { entry: prev, carried } : null);
+      })
+      .catch(() => { if (live) setSeries(null); });
+    return () => { live = false; };
+  }, [values.title, historyId, historyVersion]);
+
+  function onRestore(e: HistoryEntry) {
+    setValues({ ...e.values });
+    setResult({ subject: e.subject, body: e.body, html: e.html, extraction: e.extraction, actions: e.extraction?.actions });
+    setExtractedFrom(e.values.notes);
+    setExtractedIn(e.values.language);
+    setHistoryId(e.id);
+    setLastChange(null); setEdited(false); setError(null); setPreviewOpen(true); setSuggestions(null); setDraftLink(null);
+  }
+  // same inputs, fresh email
+  function onDuplicate(e: HistoryEntry) {
+    setValues({ ...e.values });
+    setResult(null);
+    setExtractedFrom("");
+    setHistoryId(null);
+    setLastChange(null); setError(null);
+  }
+
+  /* ---- File upload (parsed in the browser) ---- */
+  async function onImport(file: File | undefined) {
+    if (!file) return;
+    setError(null);
+    if (file.size > MAX_UPLOAD_BYTES) {
+      setError(`File is larger than ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB.`);
+      return;
+    }
+    try {
+      const r = await ingestFile(file.name, await file.arrayBuffer());
+      setValues(v => ({
+        ...v,
+        notes: r.notes,
+        participants: mergeParticipants(v.participants, r.speakers),
+        title: v.title || file.name.replace(/\.[^.]+$/, "").replace(/[_-]+/g, " ")
+      }));
+      const parts = [r.format.toUpperCase(), r.speakers.length ? `${r.speakers.length} speakers` : "", r.parts > 1 ? `${r.parts} parts` : ""];
+      setImported(`${file.name}: ${parts.filter(Boolean).join(", ")}`);
+    } catch (err: any) {
+      setError(err.message || "Could not read file.");
+    }
+  }
+
+  /* ---- Tracker webhook ---- */
+  async function onSendToTracker() {
+    if (!result?.actions?.length) return;
+    setError(null);
+    try {
+      const res = await fetch("/api/trackers", {
+        method: "POST", headers: keyHeaders(),
+        body: JSON.stringify({ title: values.title, date: values.date, actions: result.actions, owners: parseOwnerMap(owners) })
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Tracker export failed.");
+      toast(`Sent ${data.sent} item${data.sent === 1 ? "" : "s"} to tracker`);
+    } catch (err: any) {
+      setError(err.message || "Something went wrong.");
+    }
+  }
+
+  /* ---- Drafts in Gmail / Outlook (server-side, OAuth popup) ---- */
+  function setConnected(id: DraftProviderId, connected: boolean) {
+    setDraftProviders(list => list.map(p => (p.id === id ? { ...p, connected } : p)));
+  }
+  useEffect(() => {
+    const onMessage = (e: MessageEvent) => {
+      if (e.origin !== window.location.origin || e.data?.type !== "nte-drafts") return;
+      if (!e.data.ok) { setError(e.data.error || "Could not connect."); return; }
+      setConnected(e.data.provider, true);
+      setResumeDraft(e.data.provider);
+    };
+    window.addEventListener("message", onMessage);
+    return () => window.removeEventListener("message", onMessage);
+  }, []);
+  useEffect(() => {
+    if (!resumeDraft) return;
+    setResumeDraft(null);
+    onCreateDraft(resumeDraft);
+  }, [resumeDraft]);
+
+  async function onCreateDraft(id: DraftProviderId) {
+    const provider = draftProviders.find(p => p.id === id);
+    if (!result || !provider) return;
+    setError(null);
+    setDraftLink(null);
+    // opened straight from the click so popup blockers let it through
+    if (!provider.connected) {
+      window.open(`/api/drafts/${id}/connect`, "nte_oauth", "width=520,height=680");
+      return;
+    }
+    if (badRecipients.length) { setError(`Check recipients: ${badRecipients.join(", ")}`); return; }
+    setDrafting(id);
+    try {
+      const res = await fetch("/api/drafts", {
+        method: "POST", headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ provider: id, ...recipientsOf(values), subject: result.subject, text: result.body, html: result.html })
+      });
+      const data = await res.json().catch(() => ({}));
+      if (data.connect) setConnected(id, false);
+      if (!res.ok) throw new Error(data.error || "Could not create the draft.");
+      toast(`Draft saved in ${provider.label}`);
+      if (data.webLink) setDraftLink({ label: provider.label, url: data.webLink });
+    } catch (err: any) {
+      setError(err.message || "Something went wrong.");
+    } finally {
+      setDrafting(null);
+    }
+  }
+  async function onDisconnect(id: DraftProviderId) {
+    await fetch(`/api/drafts?provider=${id}`, { method: "DELETE" }).catch(() => {});
+    setConnected(id, false);
+    setDraftLink(null);
+  }
+
+  /* ---- Direct send (SMTP relay; preview, then confirm) ---- */
+  function saveSendOpts(next: { from: string; replyTo: string }) {
+    setSendOpts(next);
+    setPendingSend(null);
+    try { window.localStorage.setItem(SEND_KEY, JSON.stringify(next)); } catch {}
+  }
+  function saveAccessKey(next: string) {
+    setAccessKey(next);
+    setPendingSend(null);
+    sessionSafe.set(ACCESS_KEY_KEY, next);
+  }
+  // routes that act with the server's credentials need the access key
+  function keyHeaders(): Record<string, string> {
+    return { "Content-Type": "application/json", ...(accessKey.trim() ? { "x-api-key": accessKey.trim() } : {}) };
+  }
+  // a preview only covers the message it was made for
+  useEffect(() => { setPendingSend(null); }, [result, values.to, values.cc, values.bcc]);
+
+  async function onReviewSend() {
+    if (!result) return;
+    setError(null);
+    if (!sanitizeRecipients(values.to) || badRecipients.length) {
+      setError(badRecipients.length ? `Check recipients: ${badRecipients.join(", ")}` : "Add at least one recipient.");
+      return;
+    }
+    const payload = {
+      ...recipientsOf(values),
+      replyTo: sendOpts.replyTo || undefined,
+      from: { name: sender.name || undefined, email: sendOpts.from || undefined },
+      subject: result.subject, text: result.body, html: result.html
+    };
+    setSending(true);
+    try {
+      const res = await fetch("/api/send", {
+        method: "POST", headers: keyHeaders(), body: JSON.stringify(payload)
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Could not prepare the message.");
+      setPendingSend({ preview: data.preview, confirmToken: data.confirmToken, payload });
+    } catch (err: any) {
+      setError(err.message || "Something went wrong.");
+    } finally {
+      setSending(false);
+    }
+  }
+  async function onConfirmSend() {
+    if (!pendingSend) return;
+    setError(null);
+    setSending(true);
+    try {
+      const res = await fetch("/api/send", {
+        method: "POST", headers: keyHeaders(),
+        body: JSON.stringify({ ...pendingSend.payload, confirmToken: pendingSend.confirmToken })
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Sending failed.");
+      setPendingSend(null);
+      toast(`Sent to ${pendingSend.preview.recipients} recipient${pendingSend.preview.recipients === 1 ? "" : "s"}`);
+      if (data.rejected?.length) setError(`The relay refused: ${data.rejected.join(", ")}`);
+    } catch (err: any) {
+      setError(err.message || "Something went wrong.");
+    } finally {
+      setSending(false);
+    }
+  }
+
+  /* ---- Recipients, address book ---- */
+  const book = useMemo(() => parseAddressBook(addressBook), [addressBook]);
+  const resolved = useMemo(() => resolveParticipants(values.participants, book), [values.participants, book]);
+  const badRecipients = [values.to, values.cc, values.bcc].flatMap(r => validateRecipients(r).bad);
+  const unknown = useMemo(
+    () => (result?.actions ? unknownOwners(result.actions, book, values.participants) : []),
+    [result?.actions, book, values.participants]
+  );
+  function applyRecipients(r: Recipients) {
+    setValues(v => ({ ...v, ...r }));
+  }
+  function onParticipantsToCc() {
+    const emails = resolved.flatMap(p => (p.email ? [p.email] : []));
+    const taken = new Set([...values.to.split(/[,;]+/), ...values.bcc.split(/[,;]+/)].map(e => e.trim().toLowerCase()));
+    set("cc", addRecipients(values.cc, emails.filter(e => !taken.has(e.toLowerCase()))));
+  }
+
+  // progressive preview while sections stream in
+  const partialBody = useMemo(() => {
+    if (!partial) return "";
+    const opts = { ...values, ...styleOptions(values) };
+    return renderEmail(opts, normalizeExtraction(cleanExtraction(partial), opts)).body;
+  }, [partial, values, templates, sender]);
+
   const combinedPlain = useMemo(() => {
     if (!result) return "";
     return `Subject: ${result.subject}\n\n${result.body}`;
@@ -266,11 +772,40 @@ export default function EmailGenerator() {
             onChange={(e) => set("to", e.target.value)}
             spellCheck={false}
           />
-          {values.to && !validateRecipients(values.to).ok && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-2">
+            <input
+              className="input h-10"
+              placeholder="Cc"
+              value={values.cc}
+              onChange={(e) => set("cc", e.target.value)}
+              spellCheck={false}
+            />
+            <input
+              className="input h-10"
+              placeholder="Bcc"
+              value={values.bcc}
+              onChange={(e) => set("bcc", e.target.value)}
+              spellCheck={false}
+            />
+          </div>
+          {badRecipients.length > 0 && (
             <p className="text-xs text-red-400 mt-1">
-              Check: {validateRecipients(values.to).bad.join(", ")}
+              Check: {badRecipients.join(", ")}
             </p>
           )}
+          <details className="mt-2">
+            <summary className="text-xs text-slate-400 cursor-pointer">
+              Groups &amp; address book{book.length ? ` (${book.length})` : ""}
+            </summary>
+            <RecipientSettings
+              current={{ to: values.to, cc: values.cc, bcc: values.bcc }}
+              onApply={applyRecipients}
+              groups={groups}
+              onGroupsChange={saveGroups}
+              addressBook={addressBook}
+              onAddressBookChange={saveAddressBook}
+            />
+          </details>
         </div>
 
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
@@ -282,6 +817,12 @@ export default function EmailGenerator() {
               value={values.title}
               onChange={(e) => set("title", e.target.value)}
             />
+            {series && (
+              <label className="flex items-center gap-2 text-xs text-slate-400 mt-1">
+                <input type="checkbox" checked={carry} onChange={(e) => setCarry(e.target.checked)} />
+                Check {series.carried.length} action item{series.carried.length === 1 ? "" : "s"} from “{series.entry.values.title}”{series.entry.values.date ? ` (${series.entry.values.date})` : ""}
+              </label>
+            )}
           </div>
           <div>
             <label>Date</label>
@@ -300,6 +841,16 @@ export default function EmailGenerator() {
               value={values.participants}
               onChange={(e) => set("participants", e.target.value)}
             />
+            {resolved.some(p => p.fromBook) && (
+              <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-slate-400 mt-1">
+                {resolved.map((p, i) => (
+                  <span key={i} className={p.email ? "text-slate-300" : "text-slate-500"} title={p.email ? undefined : "Not in the address book"}>
+                    {p.name}{p.email && p.email !== p.name ? ` <${p.email}>` : ""}
+                  </span>
+                ))}
+                <button type="button" className="text-xs text-slate-400 underline" onClick={onParticipantsToCc}>Add to Cc</button>
+              </div>
+            )}
           </div>
         </div>
 
@@ -347,43 +898,17 @@ export default function EmailGenerator() {
     
         {/* Tone preview */}
         <div className="flex flex-wrap gap-2 mb-4">
-  {["concise","formal","friendly","persuasive","casual"].map((t) => (
-    <button
-      key={t}
-      type="button"
-      className="btn btn-ghost h-10"
-      onClick={async () => {
-        // call the same endpoint, only swapping tone; reuse existing form values
-        const payload = {
-          title: values.title,
-          date: values.date,
-          participants: values.participants,
-          audience: values.audience,
-          tone: t as any,
-          type: values.type,
-          length: values.length,
-          notes: values.notes
-        };
-        setLoading(true);
-        try {
-          const res = await fetch("/api/generate", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify(payload)
-          });
-          const data = await res.json();
-          setResult(data);
-          setValues(v => ({ ...v, tone: t as any })); // update UI tone
-        } finally {
-          setLoading(false);
-        }
-      }}
-    >
-      Rewrite: {t}
-    </button>
-    
-  ))}
-</div>
+          {(["concise", "formal", "friendly", "persuasive", "casual"] as const).map((t) => (
+            <button
+              key={t}
+              type="button"
+              className="btn btn-ghost h-10"
+              onClick={() => set("tone", t)}
+            >
+              Rewrite: {t}
+            </button>
+          ))}
+        </div>
         <div className="rounded-xl border border-[#1e2733] bg-[#0f141a] p-3">
           <p className="text-xs text-slate-400 mb-1">Tone preview</p>
           <div className="text-sm">
@@ -405,30 +930,71 @@ export default function EmailGenerator() {
           </select>
         </div>
 
+        <div>
+          <label>Output language</label>
+          <select
+            className="input mt-1 h-12"
+            value={values.language ?? "en"}
+            onChange={(e) => set("language", e.target.value as Language)}
+          >
+            {LANGUAGES.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+          </select>
+        </div>
+
+        <TemplateSettings
+          custom={templates}
+          onCustomChange={saveTemplates}
+          selected={values.templateName}
+          onSelect={(name) => set("templateName", name)}
+          sender={sender}
+          onSenderChange={saveSender}
+        />
+
         <div>
           <div className="flex items-end justify-between">
             <label>Notes</label>
-            <button type="button" onClick={() => set("notes", SAMPLE_NOTES)} className="text-xs text-slate-400">Insert sample</button>
+            <div className="flex gap-3">
+              <label className="text-xs text-slate-400 cursor-pointer">
+                Upload file
+                <input
+                  type="file"
+                  className="hidden"
+                  accept={INGEST_ACCEPT}
+                  onChange={(e) => { onImport(e.target.files?.[0]); e.target.value = ""; }}
+                />
+              </label>
+              <button type="button" onClick={() => set("notes", SAMPLE_NOTES)} className="text-xs text-slate-400">Insert sample</button>
+            </div>
           </div>
           <textarea
             className="input mt-1 min-h-[160px]"
-            placeholder="- Discussed launch slip…"
+            placeholder="- Discussed launch slip… (or drop a .vtt, .srt, .docx, .md or .txt file)"
             value={values.notes}
             onChange={(e) => set("notes", e.target.value)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => { e.preventDefault(); onImport(e.dataTransfer.files[0]); }}
           />
+          {imported && <p className="text-xs text-slate-500 mt-1">Imported {imported}</p>}
+          <details className="mt-2">
+            <summary className="text-xs text-slate-400 cursor-pointer">Confidential terms</summary>
+            <textarea
+              className="input mt-1 min-h-[60px] w-full text-sm"
+              placeholder={"Project Falcon\nAcme Corp"}
+              value={redactTerms}
+              onChange={(e) => saveRedactTerms(e.target.value)}
+              spellCheck={false}
+            />
+            <p className="text-xs text-slate-500 mt-1">One per line. Masked, along with emails, phone and account numbers, before the notes are sent to the model; restored in the email.</p>
+          </details>
         </div>
         <div>
     <button
   type="button"
   className="btn btn-ghost h-12"
-  onClick={async () => {
-    if (!result) return;
-    const fixed = await grammarCheck(result.body);
-    setResult({ ...result, body: fixed });
-    toast("Grammar pass applied");
-  }}
+  disabled={!result || checking}
+  onClick={onProofread}
 >
-  Check grammar
+  {checking ? "Checking…" : "Check grammar"}
 </button>
         </div>
 
@@ -438,6 +1004,11 @@ export default function EmailGenerator() {
           <button className="btn btn-primary h-12" disabled={loading}>
             {loading ? "Generating…" : "Generate Email"}
           </button>
+          {loading && abortRef.current && (
+            <button type="button" className="btn btn-ghost h-12" onClick={onCancel}>
+              Cancel
+            </button>
+          )}
           <button type="button" className="btn btn-ghost h-12" onClick={() => { setResult(null); set("notes",""); }}>
             Clear
           </button>
@@ -447,7 +1018,14 @@ export default function EmailGenerator() {
       {/* ===== PREVIEW ===== */}
       <div className="card p-4 sm:p-6">
         {!result && !loading && <p className="text-slate-400">Generate to see the email preview.</p>}
-        {loading && <p className="text-slate-400">Loading…</p>}
+        {loading && (
+          <>
+            <p className="text-slate-400">{stage ? STAGE_LABEL[stage] : "Loading…"}{part && stage === "extracting" ? ` (part ${part.part} of ${part.parts})` : ""}</p>
+            {partialBody && (
+              <pre className="text-sm text-slate-300 whitespace-pre-wrap break-words mt-4 opacity-80">{partialBody}</pre>
+            )}
+          </>
+        )}
 
         {result && !loading && (
           <>
@@ -458,24 +1036,233 @@ export default function EmailGenerator() {
             </div>
 
             <div className="grid grid-cols-2 sm:flex gap-2 mb-4">
-              <button className="btn btn-ghost" onClick={() => openGmail(sanitizeRecipients(values.to),result.subject,result.body)}>Gmail</button>
-              <button className="btn btn-ghost" onClick={() => openOutlook(sanitizeRecipients(values.to),result.subject,result.body)}>Outlook</button>
-              <button className="btn btn-ghost" onClick={() => openYahoo(sanitizeRecipients(values.to),result.subject,result.body)}>Yahoo</button>
-              <button className="btn btn-ghost" onClick={() => openMailto(sanitizeRecipients(values.to),result.subject,result.body)}>Mail App</button>
-              <button type="button" className="btn btn-ghost h-12"onClick={() => downloadEML(result.subject, result.body, sanitizeRecipients(values.to))}>Download .eml</button>
+              <button className="btn btn-ghost" onClick={() => openGmail(recipientsOf(values),result.subject,result.body)}>Gmail</button>
+              <button className="btn btn-ghost" onClick={() => openOutlook(recipientsOf(values),result.subject,result.body)}>Outlook</button>
+              <button className="btn btn-ghost" onClick={() => openYahoo(recipientsOf(values),result.subject,result.body)}>Yahoo</button>
+              <button className="btn btn-ghost" onClick={() => openMailto(recipientsOf(values),result.subject,result.body)}>Mail App</button>
+              <button type="button" className="btn btn-ghost h-12"onClick={() => downloadEML(result.subject, result.body, result.html, recipientsOf(values))}>Download .eml</button>
+              {!!result.actions?.length && (
+                <>
+                  <button type="button" className="btn btn-ghost h-12" title="All-day calendar reminders" onClick={() => downloadICS(values, result.actions!, "event", book)}>Download .ics</button>
+                  <button type="button" className="btn btn-ghost h-12" title="Tasks (VTODO) for apps that support them" onClick={() => downloadICS(values, result.actions!, "todo", book)}>.ics tasks</button>
+                </>
+              )}
             </div>
 
+            {!!draftProviders.length && (
+              <div className="flex flex-wrap items-center gap-2 mb-4">
+                {draftProviders.map(p => (
+                  <button
+                    key={p.id}
+                    type="button"
+                    className="btn btn-ghost"
+                    disabled={!!drafting}
+                    title={p.connected ? `Save as a draft in your ${p.label} mailbox` : `Connect ${p.label}, then save the draft`}
+                    onClick={() => onCreateDraft(p.id)}
+                  >
+                    {drafting === p.id ? "Saving…" : `${p.label} draft`}
+                  </button>
+                ))}
+                {draftLink && (
+                  <a className="text-sm text-slate-300 underline" href={draftLink.url} target="_blank" rel="noreferrer">
+                    Open draft in {draftLink.label}
+                  </a>
+                )}
+                {draftProviders.filter(p => p.connected).map(p => (
+                  <button key={p.id} type="button" className="text-xs text-slate-400" onClick={() => onDisconnect(p.id)}>
+                    Disconnect {p.label}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {sendInfo.enabled && (
+              <details className="mb-4">
+                <summary className="text-sm text-slate-300 cursor-pointer">Send from this app</summary>
+                <div className="grid sm:grid-cols-2 gap-2 mt-2">
+                  <div>
+                    <label className="block">From</label>
+                    {(sendInfo.senders?.length ?? 0) > 1 ? (
+                      <select className="input h-10 w-full mt-1" value={sendOpts.from || sendInfo.from} onChange={(e) => saveSendOpts({ ...sendOpts, from: e.target.value })}>
+                        {sendInfo.senders!.map(a => <option key={a} value={a}>{a}</option>)}
+                      </select>
+                    ) : (
+                      <p className="text-sm text-slate-300 mt-2">{sendInfo.from}</p>
+                    )}
+                  </div>
+                  <div>
+                    <label className="block">Reply-to</label>
+                    <input className="input h-10 w-full mt-1" type="email" placeholder="optional" value={sendOpts.replyTo} onChange={(e) => saveSendOpts({ ...sendOpts, replyTo: e.target.value })} />
+                  </div>
+                  <div className="sm:col-span-2">
+                    <label className="block">Access key</label>
+                    <input className="input h-10 w-full mt-1" type="password" autoComplete="off" placeholder="from your admin" value={accessKey} onChange={(e) => saveAccessKey(e.target.value)} />
+                  </div>
+                </div>
+                {!pendingSend ? (
+                  <button type="button" className="btn btn-ghost h-10 mt-3" disabled={sending || !accessKey.trim()} onClick={onReviewSend}>
+                    {sending ? "Preparing…" : "Review & send"}
+                  </button>
+                ) : (
+                  <div className="rounded-xl border border-[#1e2733] bg-[#0f141a] p-3 mt-3 text-sm">
+                    <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-1 text-slate-300 break-words">
+                      <dt className="text-slate-500">From</dt><dd>{pendingSend.preview.from}</dd>
+                      <dt className="text-slate-500">To</dt><dd>{pendingSend.preview.to.join(", ")}</dd>
+                      {!!pendingSend.preview.cc.length && (<><dt className="text-slate-500">Cc</dt><dd>{pendingSend.preview.cc.join(", ")}</dd></>)}
+                      {!!pendingSend.preview.bcc.length && (<><dt className="text-slate-500">Bcc</dt><dd>{pendingSend.preview.bcc.join(", ")}</dd></>)}
+                      {pendingSend.preview.replyTo && (<><dt className="text-slate-500">Reply-to</dt><dd>{pendingSend.preview.replyTo}</dd></>)}
+                      <dt className="text-slate-500">Subject</dt><dd>{pendingSend.preview.subject}</dd>
+                    </dl>
+                    <div className="flex gap-2 mt-3">
+                      <button type="button" className="btn btn-primary h-10" disabled={sending} onClick={onConfirmSend}>
+                        {sending ? "Sending…" : `Send to ${pendingSend.preview.recipients}`}
+                      </button>
+                      <button type="button" className="btn btn-ghost h-10" onClick={() => setPendingSend(null)}>Cancel</button>
+                    </div>
+                  </div>
+                )}
+              </details>
+            )}
+
+            {!!result.actions?.length && (
+              <details className="mb-4">
+                <summary className="text-sm text-slate-300 cursor-pointer">Export action items to a tracker</summary>
+                <div className="flex flex-col sm:flex-row gap-2 mt-2">
+                  <select className="input h-10" value={trackerFormat} onChange={(e) => setTrackerFormat(e.target.value as TrackerFormat)}>
+                    {TRACKER_FORMATS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+                  </select>
+                  <button type="button" className="btn btn-ghost h-10" onClick={() => downloadTracker(values, result.actions!, trackerFormat, owners)}>Download</button>
+                  {webhook && (
+                    <>
+                      <input className="input h-10 sm:w-44" type="password" autoComplete="off" placeholder="Access key" aria-label="Access key" value={accessKey} onChange={(e) => saveAccessKey(e.target.value)} />
+                      <button type="button" className="btn btn-ghost h-10" disabled={!accessKey.trim()} onClick={onSendToTracker}>Send to tracker</button>
+                    </>
+                  )}
+                </div>
+                <label className="block mt-3">Owner usernames</label>
+                <textarea
+                  className="input mt-1 min-h-[70px] w-full text-sm"
+                  placeholder={"Anna Smith = asmith\nBob = bjones"}
+                  value={owners}
+                  onChange={(e) => saveOwners(e.target.value)}
+                  spellCheck={false}
+                />
+                <p className="text-xs text-slate-500 mt-1">One per line. Unmapped owners are left unassigned and named in the description.</p>
+              </details>
+            )}
+
+            {result.extraction && values.notes !== extractedFrom && (
+              <p className="text-xs text-slate-400 mb-3">
+                Notes changed since this email was extracted. Style switches reuse the earlier extraction; Generate again to pick up the new notes.
+              </p>
+            )}
+            {result.extraction && values.language !== extractedIn && (
+              <p className="text-xs text-slate-400 mb-3">
+                Headings and wording now use {LANGUAGES.find(l => l.id === values.language)?.label}; Generate again to translate the extracted content too.
+              </p>
+            )}
+
+            {lastChange && (
+              <div className="rounded-xl border border-[#1e2733] bg-[#0f141a] p-3 mb-4">
+                <div className="flex items-center justify-between mb-2">
+                  <p className="text-xs text-slate-400">What changed</p>
+                  <div className="flex gap-3">
+                    <button type="button" className="text-xs text-slate-400" onClick={undoRestyle}>Undo</button>
+                    <button type="button" className="text-xs text-slate-400" onClick={() => setLastChange(null)}>Dismiss</button>
+                  </div>
+                </div>
+                <pre className="text-xs whitespace-pre-wrap break-words max-h-48 overflow-auto">
+                  {lastChange.diff.filter(d => d.kind !== "same").map((d, i) => (
+                    <div key={i} className={d.kind === "add" ? "text-green-400" : "text-red-400 line-through"}>
+                      {d.kind === "add" ? "+ " : "- "}{d.text || " "}
+                    </div>
+                  ))}
+                </pre>
+              </div>
+            )}
+
+            {result.validation && (result.validation.repaired || result.validation.dropped.length > 0) && (
+              <p className="text-xs text-amber-400 mb-3">
+                {result.validation.dropped.length
+                  ? `Some extracted items were malformed and left out (${result.validation.dropped.join(", ")}). Review before sending.`
+                  : "The model's first answer was malformed and has been repaired. Review before sending."}
+              </p>
+            )}
+
+            {!!result.redaction?.items.length && (
+              <details className="mb-3">
+                <summary className="text-xs text-slate-400 cursor-pointer">
+                  {result.redaction.total} item{result.redaction.total === 1 ? "" : "s"} masked before sending to the model
+                </summary>
+                <ul className="text-xs text-slate-400 mt-2 space-y-1">
+                  {result.redaction.items.map(i => (
+                    <li key={i.placeholder}>
+                      <code className="text-slate-500">{i.placeholder}</code> {i.value}{i.count > 1 ? ` (×${i.count})` : ""}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+
+            {unknown.length > 0 && (
+              <p className="text-xs text-amber-400 mb-3">
+                Not in the address book:{" "}
+                {unknown.map((o, i) => (
+                  <span key={o.name}>
+                    {i > 0 && ", "}
+                    <mark className="bg-amber-500/30 text-amber-200">{o.name}</mark>
+                    {o.count > 1 ? ` (${o.count} actions)` : ""}
+                  </span>
+                ))}
+                . Check the owner names before sending.
+              </p>
+            )}
+
             <div>
               <label>Subject</label>
-              <input className="input mt-1 h-12" value={result.subject} onChange={(e)=>setResult({...result, subject:e.target.value})}/>
+              <input className="input mt-1 h-12" value={result.subject} onChange={(e)=>{ setResult({...result, subject:e.target.value}); setEdited(true); }}/>
             </div>
+            {result.extraction && (
+              <div className="rounded-xl border border-[#1e2733] bg-[#0f141a] p-3 my-4">
+                <div className="flex items-center justify-between">
+                  <p className="text-xs text-slate-400">Sections</p>
+                  <button type="button" className="text-xs text-slate-400" onClick={() => setSectionsOpen(o => !o)}>
+                    {sectionsOpen ? "Hide" : "Edit sections"}
+                  </button>
+                </div>
+                {sectionsOpen && (
+                  <div className="mt-3 space-y-3">
+                    <ExtractionEditor
+                      value={result.extraction}
+                      onChange={(extraction) => setResult({ ...result, extraction })}
+                    />
+                    <button type="button" className="btn btn-primary h-10" onClick={onRecompose}>
+                      Apply to email
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {suggestions && (
+              <ProofreadPanel
+                text={result.body}
+                suggestions={suggestions}
+                onAccept={onAcceptSuggestion}
+                onReject={(id) => setSuggestions(suggestions.filter(x => x.id !== id))}
+                onClose={() => setSuggestions(null)}
+              />
+            )}
+
             <div>
               <label>Body</label>
-              <textarea className="input mt-1 min-h-[420px] sm:min-h-[520px] resize-y whitespace-pre-wrap break-words" value={result.body} onChange={(e)=>setResult({...result, body:e.target.value})}/>
+              <textarea className="input mt-1 min-h-[420px] sm:min-h-[520px] resize-y whitespace-pre-wrap break-words" value={result.body} onChange={(e)=>{ setResult({...result, body:e.target.value, html: undefined}); setEdited(true); }}/>
             </div>
           </>
         )}
       </div>
+
+      <HistoryPanel version={historyVersion} onRestore={onRestore} onDuplicate={onDuplicate} />
     </div>
   );
 }
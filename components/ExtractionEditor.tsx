@@ -0,0 +1,113 @@
+"use client";
+
+import type { Extraction, ExtractedAction, ExtractedPreviousAction } from "@/lib/extraction";
+import { dueLabel } from "@/utils/format";
+
+type Props = {
+  value: Extraction;
+  onChange: (next: Extraction) => void;
+};
+
+const EMPTY_ACTION: ExtractedAction = { owner: "", task: "", due: "", dueDate: "", dueFlags: [], rationale: "" };
+
+/* =========================
+   Editable string list (decisions, questions)
+   ========================= */
+function ListEditor({ label, items, onChange }: { label: string; items: string[]; onChange: (next: string[]) => void }) {
+  return (
+    <div>
+      <div className="flex items-end justify-between">
+        <label>{label}</label>
+        <button type="button" className="text-xs text-slate-400" onClick={() => onChange([...items, ""])}>+ Add</button>
+      </div>
+      {items.length === 0 && <p className="text-xs text-slate-500 mt-1">None</p>}
+      {items.map((it, i) => (
+        <div key={i} className="flex gap-2 mt-1">
+          <input
+            className="input flex-1 h-10"
+            value={it}
+            onChange={(e) => onChange(items.map((x, j) => (j === i ? e.target.value : x)))}
+          />
+          <button type="button" className="btn btn-ghost h-10" aria-label={`Remove ${label} ${i + 1}`} onClick={() => onChange(items.filter((_, j) => j !== i))}>×</button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/* =========================
+   Component
+   ========================= */
+export default function ExtractionEditor({ value, onChange }: Props) {
+  function set<K extends keyof Extraction>(k: K, v: Extraction[K]) {
+    onChange({ ...value, [k]: v });
+  }
+  function setAction(i: number, patch: Partial<ExtractedAction>) {
+    set("actions", value.actions.map((a, j) => (j === i ? { ...a, ...patch } : a)));
+  }
+  function setPrevious(i: number, patch: Partial<ExtractedPreviousAction>) {
+    set("previous", value.previous.map((p, j) => (j === i ? { ...p, ...patch } : p)));
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label>Summary</label>
+        <textarea
+          className="input mt-1 min-h-[80px] w-full"
+          value={value.summary}
+          onChange={(e) => set("summary", e.target.value)}
+        />
+      </div>
+
+      <ListEditor label="Decisions" items={value.decisions} onChange={(v) => set("decisions", v)} />
+
+      <div>
+        <div className="flex items-end justify-between">
+          <label>Action Items</label>
+          <button type="button" className="text-xs text-slate-400" onClick={() => set("actions", [...value.actions, EMPTY_ACTION])}>+ Add</button>
+        </div>
+        {value.actions.length === 0 && <p className="text-xs text-slate-500 mt-1">None</p>}
+        {value.actions.map((a, i) => (
+          <div key={i}>
+            <div className="grid grid-cols-[1fr_2fr_1fr_auto] gap-2 mt-1">
+              <input className="input h-10 min-w-0" placeholder="Owner" value={a.owner} onChange={(e) => setAction(i, { owner: e.target.value })} />
+              <input className="input h-10 min-w-0" placeholder="Task" value={a.task} onChange={(e) => setAction(i, { task: e.target.value })} />
+              <input className="input h-10 min-w-0" placeholder="Due" value={a.due} onChange={(e) => setAction(i, { due: e.target.value, dueDate: "", dueFlags: [] })} />
+              <button type="button" className="btn btn-ghost h-10" aria-label={`Remove action ${i + 1}`} onClick={() => set("actions", value.actions.filter((_, j) => j !== i))}>×</button>
+            </div>
+            {(a.dueDate || a.dueFlags.includes("unresolved")) && (
+              <p className={`text-xs mt-1 ${a.dueFlags.length ? "text-amber-400" : "text-slate-500"}`}>
+                {a.dueDate ? `Due ${dueLabel(a, typeof navigator !== "undefined" ? navigator.language : undefined)}` : "Due date not recognised"}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <ListEditor label="Open Questions" items={value.questions} onChange={(v) => set("questions", v)} />
+
+      {value.previous.length > 0 && (
+        <div>
+          <label>Previous Action Items</label>
+          {value.previous.map((p, i) => (
+            <div key={i} className="grid grid-cols-[2fr_auto_2fr_auto] gap-2 mt-1 items-center">
+              <p className="text-sm truncate" title={p.task}>{p.owner || "TBD"} — {p.task}</p>
+              <select
+                className="input h-10"
+                value={p.status}
+                onChange={(e) => setPrevious(i, { status: e.target.value as ExtractedPreviousAction["status"] })}
+              >
+                <option value="done">Done</option>
+                <option value="in-progress">In progress</option>
+                <option value="open">Open</option>
+              </select>
+              <input className="input h-10 min-w-0" placeholder="Note" value={p.note} onChange={(e) => setPrevious(i, { note: e.target.value })} />
+              <button type="button" className="btn btn-ghost h-10" aria-label={`Remove previous action ${i + 1}`} onClick={() => set("previous", value.previous.filter((_, j) => j !== i))}>×</button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
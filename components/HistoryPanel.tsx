@@ -0,0 +1,150 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  deleteEntry,
+  exportHistory,
+  historyEnabled,
+  importHistory,
+  listEntries,
+  purgeHistory,
+  searchEntries,
+  setHistoryEnabled,
+  type HistoryEntry
+} from "@/utils/history";
+
+type Props = {
+  version: number; // bump after a save to reload the list
+  onRestore: (entry: HistoryEntry) => void;
+  onDuplicate: (entry: HistoryEntry) => void;
+};
+
+/* =========================
+   Component
+   ========================= */
+export default function HistoryPanel({ version, onRestore, onDuplicate }: Props) {
+  const [enabled, setEnabled] = useState(false);
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [query, setQuery] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => { setEnabled(historyEnabled()); }, []);
+
+  async function reload() {
+    try {
+      setEntries(await listEntries());
+    } catch (e: any) {
+      setError(e.message || "Could not read history.");
+    }
+  }
+  useEffect(() => {
+    if (enabled) reload();
+  }, [enabled, version]);
+
+  const shown = useMemo(() => searchEntries(entries, query), [entries, query]);
+
+  function toggle(on: boolean) {
+    setHistoryEnabled(on);
+    setEnabled(on);
+    if (!on) setEntries([]);
+  }
+
+  async function onExport() {
+    const blob = new Blob([await exportHistory()], { type: "application/json" });
+    const a = document.createElement("a");
+    a.href = URL.createObjectURL(blob);
+    a.download = `notes-to-email-history-${new Date().toISOString().slice(0, 10)}.json`;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+  }
+
+  async function onImport(file: File | undefined) {
+    if (!file) return;
+    setError(null);
+    try {
+      const { imported, skipped } = await importHistory(await file.text());
+      setError(skipped ? `Imported ${imported}; skipped ${skipped} invalid entr${skipped === 1 ? "y" : "ies"}.` : null);
+      await reload();
+    } catch (e: any) {
+      setError(e.message || "Import failed.");
+    }
+  }
+
+  async function onPurge() {
+    if (!window.confirm("Delete all saved meetings from this device?")) return;
+    await purgeHistory();
+    setEntries([]);
+  }
+
+  async function onDelete(id: string) {
+    await deleteEntry(id);
+    setEntries(entries.filter(e => e.id !== id));
+  }
+
+  return (
+    <div className="card p-4 sm:p-6 md:col-span-2">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-lg">History</h2>
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          <input type="checkbox" checked={enabled} onChange={(e) => toggle(e.target.checked)} />
+          Save generated emails on this device
+        </label>
+      </div>
+
+      {!enabled && (
+        <p className="text-xs text-slate-500 mt-2">
+          Off by default. When on, notes, extracted sections and the final email are kept in this browser only (IndexedDB).
+        </p>
+      )}
+
+      {enabled && (
+        <>
+          <div className="flex flex-col sm:flex-row gap-2 mt-3">
+            <input
+              className="input h-10 flex-1"
+              placeholder="Search notes, decisions, actions…"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+            <button type="button" className="btn btn-ghost h-10" onClick={onExport} disabled={!entries.length}>Export JSON</button>
+            <button type="button" className="btn btn-ghost h-10" onClick={() => importRef.current?.click()}>Import</button>
+            <button type="button" className="btn btn-ghost h-10" onClick={onPurge} disabled={!entries.length}>Delete all</button>
+            <input
+              ref={importRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => { onImport(e.target.files?.[0]); e.target.value = ""; }}
+            />
+          </div>
+
+          {error && <p className="text-xs text-amber-400 mt-2">{error}</p>}
+          {!shown.length && (
+            <p className="text-xs text-slate-500 mt-3">{entries.length ? "No matches." : "Nothing saved yet."}</p>
+          )}
+
+          <ul className="mt-3 divide-y divide-[#1e2733]">
+            {shown.map(e => (
+              <li key={e.id} className="py-2 flex flex-col sm:flex-row sm:items-center gap-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm truncate">{e.subject || e.values.title || "Untitled meeting"}</p>
+                  <p className="text-xs text-slate-500 truncate">
+                    {new Date(e.createdAt).toLocaleString()}
+                    {e.extraction?.decisions[0] ? ` · ${e.extraction.decisions[0]}` : ""}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button type="button" className="btn btn-ghost h-9" onClick={() => onRestore(e)}>Restore</button>
+                  <button type="button" className="btn btn-ghost h-9" title="Start a new email from these inputs" onClick={() => onDuplicate(e)}>Duplicate</button>
+                  <button type="button" className="btn btn-ghost h-9" aria-label={`Delete ${e.subject}`} onClick={() => onDelete(e.id)}>×</button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
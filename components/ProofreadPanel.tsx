@@ -0,0 +1,69 @@
+"use client";
+
+import type { Suggestion } from "@/lib/proofread";
+
+type Props = {
+  text: string;
+  suggestions: Suggestion[];
+  onAccept: (id: string, replacement: string) => void;
+  onReject: (id: string) => void;
+  onClose: () => void;
+};
+
+const CONTEXT = 30; // characters shown either side of the problem
+
+function snippet(text: string, s: Suggestion) {
+  const start = Math.max(0, s.offset - CONTEXT);
+  const end = Math.min(text.length, s.offset + s.length + CONTEXT);
+  return {
+    before: (start > 0 ? "…" : "") + text.slice(start, s.offset),
+    after: text.slice(s.offset + s.length, end) + (end < text.length ? "…" : "")
+  };
+}
+
+// spaces are invisible in a button; show them
+function visible(s: string) {
+  return s === "" ? "(remove)" : s.replace(/ /g, "␣");
+}
+
+/* =========================
+   Component
+   ========================= */
+export default function ProofreadPanel({ text, suggestions, onAccept, onReject, onClose }: Props) {
+  // suggestions whose text was edited by hand no longer apply
+  const live = suggestions.filter(s => text.slice(s.offset, s.offset + s.length) === s.original);
+
+  return (
+    <div className="rounded-xl border border-[#1e2733] bg-[#0f141a] p-3 mb-4">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-xs text-slate-400">
+          {live.length ? `${live.length} suggestion${live.length === 1 ? "" : "s"}` : "No more suggestions"}
+        </p>
+        <button type="button" className="text-xs text-slate-400" onClick={onClose}>Close</button>
+      </div>
+      <ul className="space-y-3 max-h-72 overflow-auto">
+        {live.map(s => {
+          const { before, after } = snippet(text, s);
+          return (
+            <li key={s.id} className="text-sm">
+              <p className="text-slate-300">{s.message}</p>
+              <p className="text-xs text-slate-500 whitespace-pre-wrap break-words">
+                {before}
+                <mark className="bg-amber-500/30 text-amber-200">{s.original || " "}</mark>
+                {after}
+              </p>
+              <div className="flex flex-wrap gap-2 mt-1">
+                {s.replacements.map(r => (
+                  <button key={r} type="button" className="btn btn-ghost h-8 px-2 text-xs" onClick={() => onAccept(s.id, r)}>
+                    {visible(r)}
+                  </button>
+                ))}
+                <button type="button" className="text-xs text-slate-400" onClick={() => onReject(s.id)}>Ignore</button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import { useState } from "react";
+import type { RecipientGroup } from "@/utils/addressbook";
+
+type Recipients = { to: string; cc: string; bcc: string };
+
+type Props = {
+  current: Recipients;
+  onApply: (next: Recipients) => void;
+  groups: RecipientGroup[];
+  onGroupsChange: (next: RecipientGroup[]) => void;
+  addressBook: string; // "Name = email" per line
+  onAddressBookChange: (next: string) => void;
+};
+
+/* =========================
+   Component
+   ========================= */
+export default function RecipientSettings({ current, onApply, groups, onGroupsChange, addressBook, onAddressBookChange }: Props) {
+  const [selected, setSelected] = useState("");
+  const [name, setName] = useState("");
+  const group = groups.find(g => g.name === selected);
+  const empty = !current.to.trim() && !current.cc.trim() && !current.bcc.trim();
+
+  // same name replaces the saved group
+  function onSave() {
+    const n = name.trim();
+    if (!n || empty) return;
+    onGroupsChange([...groups.filter(g => g.name !== n), { name: n, ...current }].sort((a, b) => a.name.localeCompare(b.name)));
+    setSelected(n);
+    setName("");
+  }
+
+  function onDelete() {
+    onGroupsChange(groups.filter(g => g.name !== selected));
+    setSelected("");
+  }
+
+  return (
+    <div className="space-y-3 mt-2">
+      <div>
+        <label className="block">Recipient groups</label>
+        <div className="flex flex-col sm:flex-row gap-2 mt-1">
+          <select className="input h-10 flex-1" value={selected} onChange={(e) => setSelected(e.target.value)}>
+            <option value="">{groups.length ? "Choose a group…" : "No saved groups"}</option>
+            {groups.map(g => <option key={g.name} value={g.name}>{g.name}</option>)}
+          </select>
+          <button type="button" className="btn btn-ghost h-10" disabled={!group} onClick={() => group && onApply({ to: group.to, cc: group.cc, bcc: group.bcc })}>
+            Use
+          </button>
+          {group && <button type="button" className="text-xs text-slate-400" onClick={onDelete}>Delete</button>}
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2 mt-2">
+          <input
+            className="input h-10 flex-1"
+            placeholder="Client — Acme"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <button type="button" className="btn btn-ghost h-10" disabled={!name.trim() || empty} onClick={onSave}>
+            Save current recipients
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <label className="block">Address book</label>
+        <textarea
+          className="input mt-1 min-h-[90px] w-full text-sm"
+          placeholder={"Anna Smith = anna@acme.com\nBob Lee = bob@acme.com"}
+          value={addressBook}
+          onChange={(e) => onAddressBookChange(e.target.value)}
+          spellCheck={false}
+        />
+        <p className="text-xs text-slate-500 mt-1">
+          One per line. Participants and action owners are matched by full name, first name (when unique) or address.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { BUILTIN_TEMPLATES, PLACEHOLDERS, parseTemplate, type EmailTemplate, type Sender } from "@/lib/templates";
+
+type Props = {
+  custom: EmailTemplate[];
+  onCustomChange: (next: EmailTemplate[], select?: string) => void; // `select` switches to a just-saved template
+  selected: string; // template name
+  onSelect: (name: string) => void;
+  sender: Sender;
+  onSenderChange: (next: Sender) => void;
+};
+
+function downloadJson(name: string, data: unknown) {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+  const a = document.createElement("a");
+  a.href = URL.createObjectURL(blob);
+  a.download = name.replace(/[^\w\-.]+/g, "_");
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+}
+
+/* =========================
+   Component
+   ========================= */
+export default function TemplateSettings({ custom, onCustomChange, selected, onSelect, sender, onSenderChange }: Props) {
+  const all = [...BUILTIN_TEMPLATES, ...custom];
+  const current = all.find(t => t.name === selected) ?? BUILTIN_TEMPLATES[0];
+  const isCustom = custom.some(t => t.name === current.name);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [issues, setIssues] = useState<string[]>([]);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setDraft(JSON.stringify(current, null, 2));
+    setIssues([]);
+  }, [current.name, editing]);
+
+  // validated before it is stored or used; built-in names are reserved
+  function save(json: unknown): boolean {
+    const r = parseTemplate(json);
+    if (!r.ok) {
+      setIssues(r.issues);
+      return false;
+    }
+    if (BUILTIN_TEMPLATES.some(t => t.name === r.template.name)) {
+      setIssues([`name: "${r.template.name}" is a built-in template; pick another name`]);
+      return false;
+    }
+    onCustomChange([...custom.filter(t => t.name !== r.template.name), r.template], r.template.name);
+    setIssues([]);
+    return true;
+  }
+
+  function onSaveDraft() {
+    try {
+      if (save(JSON.parse(draft))) setEditing(false);
+    } catch {
+      setIssues(["(root): not valid JSON"]);
+    }
+  }
+
+  async function onImport(file: File | undefined) {
+    if (!file) return;
+    try {
+      save(JSON.parse(await file.text()));
+    } catch {
+      setIssues(["(root): not valid JSON"]);
+    }
+  }
+
+  function onDelete() {
+    onCustomChange(custom.filter(t => t.name !== current.name));
+    onSelect(BUILTIN_TEMPLATES[0].name);
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <div className="flex items-end justify-between">
+          <label>Template</label>
+          <div className="flex gap-3">
+            <button type="button" className="text-xs text-slate-400" onClick={() => setEditing(e => !e)}>{editing ? "Close editor" : "Edit JSON"}</button>
+            <button type="button" className="text-xs text-slate-400" onClick={() => downloadJson(`${current.name}.template.json`, current)}>Export</button>
+            <button type="button" className="text-xs text-slate-400" onClick={() => importRef.current?.click()}>Import</button>
+            {isCustom && <button type="button" className="text-xs text-slate-400" onClick={onDelete}>Delete</button>}
+          </div>
+        </div>
+        <select className="input mt-1 h-12" value={current.name} onChange={(e) => onSelect(e.target.value)}>
+          {all.map(t => <option key={t.name} value={t.name}>{t.name}</option>)}
+        </select>
+        {current.description && <p className="text-xs text-slate-500 mt-1">{current.description}</p>}
+        <input
+          ref={importRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => { onImport(e.target.files?.[0]); e.target.value = ""; }}
+        />
+      </div>
+
+      {editing && (
+        <div>
+          <textarea
+            className="input min-h-[220px] w-full font-mono text-xs"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            spellCheck={false}
+          />
+          <p className="text-xs text-slate-500 mt-1">
+            Placeholders: {PLACEHOLDERS.map(p => `{${p}}`).join(" ")}. Sections: context, summary, keyPoints, decisions, previous, actions, questions.
+          </p>
+          <button type="button" className="btn btn-ghost h-10 mt-2" onClick={onSaveDraft}>Save as custom template</button>
+        </div>
+      )}
+      {issues.length > 0 && (
+        <ul className="text-xs text-red-400">
+          {issues.slice(0, 5).map((i, k) => <li key={k}>{i}</li>)}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label>Your name</label>
+          <input
+            className="input mt-1 h-12"
+            placeholder="Sam Lee"
+            value={sender.name}
+            onChange={(e) => onSenderChange({ ...sender, name: e.target.value })}
+          />
+        </div>
+        <div>
+          <label>Signature</label>
+          <textarea
+            className="input mt-1 min-h-[48px] w-full"
+            placeholder={"Product Manager\nAcme Ltd"}
+            value={sender.signature ?? ""}
+            onChange={(e) => onSenderChange({ ...sender, signature: e.target.value })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
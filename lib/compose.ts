@@ -0,0 +1,78 @@
+// lib/compose.ts
+// Email options shared by /api/generate and /api/compose, and the single
+// place that turns options + extraction into subject, text and HTML.
+import { z } from "zod";
+import { composeEmail, subjectFrom, type ComposeOptions } from "@/utils/format";
+import { composeEmailHtml } from "@/utils/html";
+import type { Extraction } from "@/lib/extraction";
+import { normalizeDue, parseMeetingDate, today } from "@/lib/dates";
+import { senderSchema, templateSchema } from "@/lib/templates";
+import { LANGUAGE_IDS } from "@/lib/i18n";
+
+export const emailOptionsSchema = z.object({
+  title: z.string().optional(),
+  date: z.string().optional(),
+  participants: z.string().optional(),
+  audience: z.enum(["internal", "client", "stakeholder"]),
+  tone: z.enum(["concise", "formal", "friendly", "persuasive", "casual"]),
+  type: z.enum(["summary", "follow-up", "action-only"]),
+  length: z.enum(["short", "medium", "long"]),
+  language: z.enum(LANGUAGE_IDS).default("en"), // output language for extraction and fixed copy
+  locale: z.string().max(35).optional(), // BCP 47 tag for dates, e.g. "en-US"
+  timeZone: z.string().max(64).optional(), // IANA zone used for "today", e.g. "Europe/London"
+  template: templateSchema.optional(),
+  sender: senderSchema.optional()
+});
+
+export type EmailOptions = z.infer<typeof emailOptionsSchema>;
+
+export type RenderedEmail = {
+  subject: string;
+  body: string;
+  html: string;
+};
+
+/**
+ * Resolves every action's due phrase against the meeting date and sorts the
+ * actions by date (undated last). Safe to run again after edits.
+ */
+export function normalizeExtraction(data: Extraction, p: Pick<EmailOptions, "date" | "timeZone">): Extraction {
+  const now = today(p.timeZone);
+  const base = parseMeetingDate(p.date) ?? now;
+  const rank = (d: string) => d || "9999-99-99";
+  // Array#sort is stable, so same-day and undated actions keep their order
+  const actions = data.actions
+    .map(a => ({ ...a, ...normalizeDue(a.due, base, now) }))
+    .sort((x, y) => (rank(x.dueDate) < rank(y.dueDate) ? -1 : rank(x.dueDate) > rank(y.dueDate) ? 1 : 0));
+  return { ...data, actions };
+}
+
+export function renderEmail(p: EmailOptions, data: Extraction): RenderedEmail {
+  // Compose FINAL email with formatter (adds intro, Attendees, sections)
+  const compose: ComposeOptions = {
+    title: p.title,
+    date: p.date,
+    participants: p.participants,
+    audience: p.audience,
+    tone: p.tone,
+    type: p.type,
+    length: p.length,
+    summary: data.summary,
+    context: data.context,
+    decisions: data.decisions,
+    actions: data.actions,
+    questions: data.questions,
+    previous: data.previous,
+    locale: p.locale,
+    language: p.language,
+    template: p.template,
+    sender: p.sender
+  };
+
+  return {
+    // Subject strictly from title + type (short & concise)
+    subject: subjectFrom(p.title, p.type, p.template, p.date, p.language, p.locale),
+    body: composeEmail(compose),
+    html: composeEmailHtml(compose)
+  };
+}
@@ -0,0 +1,271 @@
+// lib/dates.ts
+// Date normalization for action items: due phrases ("by Fri", "EOW",
+// "next Tuesday") resolved against the meeting date, flagged when ambiguous
+// or already past, and rendered in one configurable locale. Dates are handled
+// as UTC midnights so the server timezone never shifts a day.
+
+const DAY_MS = 86_400_000;
+
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const WEEKDAY_RE = "(mon|tue|tues|wed|thu|thur|thurs|fri|sat|sun)(?:day|nesday|rsday|urday|sday)?";
+const MONTH_RE =
+  "(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?";
+
+/* ---------- helpers ---------- */
+function utc(y: number, m: number, d: number) {
+  return new Date(Date.UTC(y, m, d));
+}
+
+function addDays(d: Date, n: number) {
+  return new Date(d.getTime() + n * DAY_MS);
+}
+
+export function toISODate(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+/** Parses the meeting date ("2025-08-01" or anything Date understands) as a UTC day. */
+export function parseMeetingDate(s?: string): Date | null {
+  const v = s?.trim();
+  if (!v) return null;
+  const iso = v.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) return utc(+iso[1], +iso[2] - 1, +iso[3]);
+  const d = new Date(v);
+  return isNaN(d.getTime()) ? null : utc(d.getFullYear(), d.getMonth(), d.getDate());
+}
+
+/** Today's calendar date in `timeZone` (defaults to the server's zone). */
+export function today(timeZone?: string): Date {
+  const now = new Date();
+  if (timeZone) {
+    try {
+      const [y, m, d] = new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" })
+        .format(now)
+        .split("-")
+        .map(Number);
+      return utc(y, m - 1, d);
+    } catch {
+      // unknown zone: fall through to the server's
+    }
+  }
+  return utc(now.getFullYear(), now.getMonth(), now.getDate());
+}
+
+function weekdayIndex(name: string) {
+  return WEEKDAYS.indexOf(name.slice(0, 3).toLowerCase());
+}
+
+// next occurrence strictly after base
+function upcoming(base: Date, dow: number) {
+  const diff = (dow - base.getUTCDay() + 7) % 7 || 7;
+  return addDays(base, diff);
+}
+
+// Friday of the (Mon-start) week containing base; weekends roll to the next week
+function endOfWeek(base: Date) {
+  const dow = base.getUTCDay();
+  return addDays(base, dow === 6 ? 6 : dow === 0 ? 5 : 5 - dow);
+}
+
+function sameWeek(a: Date, b: Date) {
+  const monday = (d: Date) => addDays(d, -((d.getUTCDay() + 6) % 7)).getTime();
+  return monday(a) === monday(b);
+}
+
+// a real calendar day; Date would quietly turn 30 Feb into 2 Mar
+function validDay(y: number, month: number, day: number) {
+  return month >= 0 && month <= 11 && day >= 1 && day <= utc(y, month + 1, 0).getUTCDate();
+}
+
+function calendarDay(y: number, month: number, day: number) {
+  return validDay(y, month, day) ? utc(y, month, day) : null;
+}
+
+// a month/day with no year: the next one on or after base (29 Feb: the next leap year)
+function nextMonthDay(base: Date, month: number, day: number) {
+  if (!validDay(2024, month, day)) return null;
+  for (let y = base.getUTCFullYear(); y <= base.getUTCFullYear() + 4; y++) {
+    const d = utc(y, month, day);
+    if (validDay(y, month, day) && d.getTime() >= base.getTime()) return d;
+  }
+  return null;
+}
+
+// pushed into next year: might be a past date written without its year
+function rolledOver(base: Date, month: number, day: number) {
+  return validDay(2024, month, day) && utc(base.getUTCFullYear(), month, day).getTime() < base.getTime();
+}
+
+// "8/15" is month-first; "15/8" can only be day-first
+function numericMonthDay(a: number, b: number): [month: number, day: number] {
+  return a > 12 ? [b - 1, a] : [a - 1, b];
+}
+
+/* ---------- phrase table ---------- */
+type Rule = {
+  re: RegExp;
+  resolve: (m: RegExpMatchArray, base: Date) => Date | null;
+  ambiguous?: (m: RegExpMatchArray, base: Date) => boolean; // another reading gives a different day
+};
+
+const LEAD = "(?:(?:by|due|before|until|on|for)\\s+)?";
+
+const RULES: Rule[] = [
+  {
+    re: new RegExp(`${LEAD}(\\d{4})-(\\d{2})-(\\d{2})\\b`, "i"),
+    resolve: m => calendarDay(+m[1], +m[2] - 1, +m[3])
+  },
+  {
+    re: /\b(?:(?:by|due|before|until)\s+)?(?:eod|end of (?:the )?day)\b|\b(?:by|due)\s+today\b/i,
+    resolve: (_m, base) => base
+  },
+  {
+    re: /\b(?:by\s+|due\s+)?tomorrow\b/i,
+    resolve: (_m, base) => addDays(base, 1)
+  },
+  {
+    re: /\b(?:by\s+|due\s+)?(?:eonw|end of next week)\b/i,
+    resolve: (_m, base) => addDays(endOfWeek(base), 7)
+  },
+  {
+    re: /\b(?:by\s+|due\s+)?(?:eow|end of (?:the )?week|this week)\b/i,
+    resolve: (_m, base) => endOfWeek(base)
+  },
+  {
+    re: /\b(?:by\s+|due\s+)?(?:eom|end of (?:the )?month)\b/i,
+    resolve: (_m, base) => utc(base.getUTCFullYear(), base.getUTCMonth() + 1, 0)
+  },
+  {
+    re: /\b(?:by\s+|due\s+)?(?:eoq|end of (?:the )?quarter)\b/i,
+    resolve: (_m, base) => utc(base.getUTCFullYear(), Math.floor(base.getUTCMonth() / 3) * 3 + 3, 0)
+  },
+  {
+    // recognised as a deadline, but the calendar date depends on the team
+    re: /\b(?:by\s+|due\s+)?(?:(?:the\s+)?end of (?:the\s+)?(?:sprint|release|cycle|milestone)|next sprint|asap)\b/i,
+    resolve: () => null
+  },
+  {
+    re: /\b(?:by\s+|due\s+)?next week\b/i,
+    resolve: (_m, base) => addDays(base, 7 - ((base.getUTCDay() + 6) % 7)) // Monday
+  },
+  {
+    re: /\b(?:with)?in\s+(\d+|a|one|two|three|four)\s+(day|week)s?\b/i,
+    resolve: (m, base) => {
+      const words: Record<string, number> = { a: 1, one: 1, two: 2, three: 3, four: 4 };
+      const n = words[m[1].toLowerCase()] ?? Number(m[1]);
+      return addDays(base, n * (m[2].toLowerCase() === "week" ? 7 : 1));
+    }
+  },
+  {
+    re: new RegExp(`\\b(?:by\\s+|due\\s+|on\\s+)?next\\s+${WEEKDAY_RE}\\b`, "i"),
+    resolve: (m, base) => {
+      const d = upcoming(base, weekdayIndex(m[1]));
+      return sameWeek(d, base) ? addDays(d, 7) : d;
+    },
+    // "next Tuesday" said on a Monday: tomorrow or a week later?
+    ambiguous: (m, base) => sameWeek(upcoming(base, weekdayIndex(m[1])), base)
+  },
+  {
+    re: new RegExp(`\\b(?:by|due|before|until|on)\\s+(?:this\\s+)?${WEEKDAY_RE}\\b`, "i"),
+    resolve: (m, base) => upcoming(base, weekdayIndex(m[1])),
+    // "by Fri" said on a Friday: today or next week?
+    ambiguous: (m, base) => weekdayIndex(m[1]) === base.getUTCDay()
+  },
+  {
+    re: new RegExp(`\\b${LEAD}${MONTH_RE}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`, "i"),
+    resolve: (m, base) => nextMonthDay(base, MONTHS.indexOf(m[1].slice(0, 3).toLowerCase()), +m[2]),
+    ambiguous: (m, base) => rolledOver(base, MONTHS.indexOf(m[1].slice(0, 3).toLowerCase()), +m[2])
+  },
+  {
+    re: new RegExp(`\\b${LEAD}(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH_RE}\\b`, "i"),
+    resolve: (m, base) => nextMonthDay(base, MONTHS.indexOf(m[2].slice(0, 3).toLowerCase()), +m[1]),
+    ambiguous: (m, base) => rolledOver(base, MONTHS.indexOf(m[2].slice(0, 3).toLowerCase()), +m[1])
+  },
+  {
+    // numeric dates read month-first (8/15) unless only day-first fits (15/8)
+    re: /\b(?:by|due|before|until|on)\s+(\d{1,2})\/(\d{1,2})\b/i,
+    resolve: (m, base) => nextMonthDay(base, ...numericMonthDay(+m[1], +m[2])),
+    // 5/8 could be 8 May or 5 Aug
+    ambiguous: (m, base) => (+m[1] <= 12 && +m[2] <= 12 && m[1] !== m[2]) || rolledOver(base, ...numericMonthDay(+m[1], +m[2]))
+  }
+];
+
+export type DueMatch = {
+  phrase: string; // as written, e.g. "by Fri"
+  index: number; // position in the source line
+  iso: string | null; // resolved date, null when no base date is known
+  ambiguous: boolean;
+};
+
+/** Finds the first due phrase in a line of notes and resolves it against `base`. */
+export function findDuePhrase(line: string, base: Date | null): DueMatch | null {
+  let best: { m: RegExpMatchArray; rule: Rule } | null = null;
+  for (const rule of RULES) {
+    const m = line.match(rule.re);
+    if (m && m.index !== undefined && (!best || m.index < best.m.index!)) best = { m, rule };
+  }
+  if (!best) return null;
+  const d = base ? best.rule.resolve(best.m, base) : null;
+  return {
+    phrase: best.m[0].trim(),
+    index: best.m.index!,
+    iso: d && !isNaN(d.getTime()) ? toISODate(d) : null,
+    ambiguous: !!(base && best.rule.ambiguous?.(best.m, base))
+  };
+}
+
+/* ---------- normalization ---------- */
+export type DueFlag =
+  | "ambiguous" // the phrase has more than one reasonable reading
+  | "past" // falls before the meeting itself
+  | "overdue" // falls before today
+  | "unresolved"; // a due phrase we could not turn into a date
+
+export type NormalizedDue = { dueDate: string; dueFlags: DueFlag[] };
+
+/**
+ * Resolves a free-form due value ("Fri", "by 8/15", "2 weeks", "2025-09-01")
+ * to an ISO date. The original phrase is left to the caller to keep.
+ */
+export function normalizeDue(due: string, base: Date, now: Date): NormalizedDue {
+  const phrase = due.trim();
+  if (!phrase) return { dueDate: "", dueFlags: [] };
+
+  // bare values ("Fri", "8/15", "2 weeks") need the lead-in the rules expect
+  const m =
+    findDuePhrase(phrase, base) ??
+    findDuePhrase(`by ${phrase}`, base) ??
+    findDuePhrase(`in ${phrase}`, base);
+  if (!m?.iso) return { dueDate: "", dueFlags: ["unresolved"] };
+
+  const flags: DueFlag[] = [];
+  if (m.ambiguous) flags.push("ambiguous");
+  if (m.iso < toISODate(base)) flags.push("past");
+  if (m.iso < toISODate(now)) flags.push("overdue");
+  return { dueDate: m.iso, dueFlags: flags };
+}
+
+/* ---------- display ---------- */
+export type DateFormat = { locale: string; timeZone: string };
+
+export const DEFAULT_DATE_FORMAT: DateFormat = { locale: "en-GB", timeZone: "UTC" };
+
+/** Renders an ISO date (e.g. "1 Aug 2025" in en-GB) the same way on every host. */
+export function formatDate(iso: string, locale = DEFAULT_DATE_FORMAT.locale, weekday = false): string {
+  const m = iso.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!m) return iso;
+  const opts: Intl.DateTimeFormatOptions = {
+    timeZone: "UTC", // date-only values live at UTC midnight
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    ...(weekday ? { weekday: "short" as const } : {})
+  };
+  try {
+    return utc(+m[1], +m[2] - 1, +m[3]).toLocaleDateString(locale, opts);
+  } catch {
+    return utc(+m[1], +m[2] - 1, +m[3]).toLocaleDateString(DEFAULT_DATE_FORMAT.locale, opts);
+  }
+}
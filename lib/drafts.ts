@@ -0,0 +1,206 @@
+// lib/drafts.ts
+// Server-side drafts in the user's own mailbox: Gmail API or Microsoft Graph.
+// Each provider brings its OAuth endpoints and a createDraft call; every URL
+// can be pointed elsewhere through the environment, e.g. at a local mock.
+import { buildEml } from "@/utils/mime";
+
+export type DraftProviderId = "gmail" | "outlook";
+
+export const DRAFT_PROVIDER_IDS = ["gmail", "outlook"] as const;
+
+export const DRAFT_PROVIDER_LABELS: Record<DraftProviderId, string> = { gmail: "Gmail", outlook: "Outlook" };
+
+export type DraftMessage = {
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+export type DraftResult =
+  | { ok: true; id: string; webLink?: string }
+  | { ok: false; status: number; error: string }; // status as answered by the provider
+
+export type OAuthConfig = {
+  clientId: string;
+  clientSecret: string;
+  authorizeUrl: string;
+  tokenUrl: string;
+  scope: string;
+};
+
+export interface DraftProvider {
+  id: DraftProviderId;
+  label: string;
+  oauth: OAuthConfig;
+  createDraft(accessToken: string, msg: DraftMessage, signal?: AbortSignal): Promise<DraftResult>;
+}
+
+type Env = Record<string, string | undefined>;
+
+function trimSlash(url: string) {
+  return url.replace(/\/+$/, "");
+}
+
+async function failure(res: Response): Promise<DraftResult> {
+  const detail = await res.text().catch(() => "");
+  return { ok: false, status: res.status, error: detail.slice(0, 500) || res.statusText };
+}
+
+/* ---------- Gmail ---------- */
+// the Gmail API takes the whole RFC 822 message, base64url-encoded
+function gmailProvider(env: Env): DraftProvider | null {
+  const clientId = env.GOOGLE_CLIENT_ID?.trim();
+  const clientSecret = env.GOOGLE_CLIENT_SECRET?.trim();
+  if (!clientId || !clientSecret) return null;
+  const api = trimSlash(env.GMAIL_API_URL || "https://gmail.googleapis.com");
+
+  return {
+    id: "gmail",
+    label: DRAFT_PROVIDER_LABELS.gmail,
+    oauth: {
+      clientId,
+      clientSecret,
+      authorizeUrl: env.GOOGLE_AUTH_URL || "https://accounts.google.com/o/oauth2/v2/auth",
+      tokenUrl: env.GOOGLE_TOKEN_URL || "https://oauth2.googleapis.com/token",
+      scope: "https://www.googleapis.com/auth/gmail.compose"
+    },
+    async createDraft(accessToken, msg, signal) {
+      const eml = buildEml({
+        to: msg.to.join(", "),
+        cc: msg.cc.join(", "),
+        bcc: msg.bcc.join(", "),
+        subject: msg.subject,
+        text: msg.text,
+        html: msg.html
+      });
+      const res = await fetch(`${api}/gmail/v1/users/me/drafts`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${accessToken}`, "Content-Type": "application/json" },
+        body: JSON.stringify({ message: { raw: Buffer.from(eml).toString("base64url") } }),
+        signal
+      });
+      if (!res.ok) return failure(res);
+      const data = (await res.json()) as { id: string; message?: { id?: string } };
+      const messageId = data.message?.id;
+      return {
+        ok: true,
+        id: data.id,
+        webLink: messageId ? `https://mail.google.com/mail/#drafts?compose=${messageId}` : undefined
+      };
+    }
+  };
+}
+
+/* ---------- Outlook (Microsoft Graph) ---------- */
+// POST /me/messages creates the message in the Drafts folder
+function outlookProvider(env: Env): DraftProvider | null {
+  const clientId = env.MS_CLIENT_ID?.trim();
+  const clientSecret = env.MS_CLIENT_SECRET?.trim();
+  if (!clientId || !clientSecret) return null;
+  const tenant = env.MS_TENANT?.trim() || "common";
+  const login = `https://login.microsoftonline.com/${tenant}/oauth2/v2.0`;
+  const graph = trimSlash(env.MS_GRAPH_URL || "https://graph.microsoft.com/v1.0");
+  const recipients = (list: string[]) => list.map(address => ({ emailAddress: { address } }));
+
+  return {
+    id: "outlook",
+    label: DRAFT_PROVIDER_LABELS.outlook,
+    oauth: {
+      clientId,
+      clientSecret,
+      authorizeUrl: env.MS_AUTH_URL || `${login}/authorize`,
+      tokenUrl: env.MS_TOKEN_URL || `${login}/token`,
+      scope: "https://graph.microsoft.com/Mail.ReadWrite"
+    },
+    async createDraft(accessToken, msg, signal) {
+      const res = await fetch(`${graph}/me/messages`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${accessToken}`, "Content-Type": "application/json" },
+        body: JSON.stringify({
+          subject: msg.subject,
+          body: msg.html ? { contentType: "HTML", content: msg.html } : { contentType: "Text", content: msg.text },
+          toRecipients: recipients(msg.to),
+          ccRecipients: recipients(msg.cc),
+          bccRecipients: recipients(msg.bcc)
+        }),
+        signal
+      });
+      if (!res.ok) return failure(res);
+      const data = (await res.json()) as { id: string; webLink?: string };
+      return { ok: true, id: data.id, webLink: data.webLink };
+    }
+  };
+}
+
+/* =========================
+   Registry
+   ========================= */
+const FACTORIES: Record<DraftProviderId, (env: Env) => DraftProvider | null> = {
+  gmail: gmailProvider,
+  outlook: outlookProvider
+};
+
+/** Providers with OAuth client credentials in the environment. */
+export function draftProvidersFromEnv(env: Env = process.env): DraftProvider[] {
+  return DRAFT_PROVIDER_IDS.flatMap(id => FACTORIES[id](env) ?? []);
+}
+
+export function draftProviderFromEnv(id: string, env: Env = process.env): DraftProvider | null {
+  return (DRAFT_PROVIDER_IDS as readonly string[]).includes(id) ? FACTORIES[id as DraftProviderId](env) : null;
+}
+
+/* =========================
+   OAuth (authorization code flow)
+   ========================= */
+export function authorizeUrl(provider: DraftProvider, redirectUri: string, state: string): string {
+  const url = new URL(provider.oauth.authorizeUrl);
+  url.searchParams.set("client_id", provider.oauth.clientId);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("redirect_uri", redirectUri);
+  url.searchParams.set("scope", provider.oauth.scope);
+  url.searchParams.set("state", state);
+  if (provider.id === "gmail") url.searchParams.set("include_granted_scopes", "true");
+  return url.toString();
+}
+
+/** Trades the callback code for an access token; `expiresIn` is in seconds. */
+export async function exchangeCode(
+  provider: DraftProvider,
+  code: string,
+  redirectUri: string,
+  signal?: AbortSignal
+): Promise<{ accessToken: string; expiresIn: number }> {
+  const res = await fetch(provider.oauth.tokenUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: redirectUri,
+      client_id: provider.oauth.clientId,
+      client_secret: provider.oauth.clientSecret,
+      scope: provider.oauth.scope
+    }),
+    signal
+  });
+  if (!res.ok) throw new Error(`${provider.label} token exchange failed (${res.status}): ${await res.text()}`);
+  const data = (await res.json()) as { access_token?: string; expires_in?: number };
+  if (!data.access_token) throw new Error(`${provider.label} token response had no access_token`);
+  return { accessToken: data.access_token, expiresIn: Number(data.expires_in) || 3600 };
+}
+
+/* ---------- cookies ---------- */
+// the access token stays in an httpOnly cookie scoped to the draft routes; no refresh tokens are kept
+export const STATE_COOKIE = "nte_oauth_state";
+
+export function tokenCookie(id: DraftProviderId): string {
+  return `nte_draft_${id}`;
+}
+
+// must match the redirect URI registered with the provider; APP_URL wins behind a proxy
+export function callbackUrl(origin: string, id: DraftProviderId, env: Env = process.env): string {
+  return `${trimSlash(env.APP_URL?.trim() || origin)}/api/drafts/${id}/callback`;
+}
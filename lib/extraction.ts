@@ -0,0 +1,198 @@
+// lib/extraction.ts
+// zod contract for the model's extraction JSON, plus the helpers the route
+// uses to ask for one repair pass and to salvage what it can afterwards.
+import { z } from "zod";
+
+/* ---------- schema ---------- */
+// Nulls and numbers are common model slips; coerce them instead of failing.
+const text = z.preprocess(
+  v => (v == null ? "" : typeof v === "number" ? String(v) : v),
+  z.string().trim()
+);
+const item = text.pipe(z.string().min(1));
+
+export const actionSchema = z.object({
+  owner: text,
+  task: item,
+  due: text,
+  // filled in by normalizeExtraction, not by the model
+  dueDate: text,
+  dueFlags: z.array(z.enum(["ambiguous", "past", "overdue", "unresolved"])).default([]),
+  rationale: text
+});
+
+// last meeting's action, echoed back with what the new notes say about it
+export const previousActionSchema = actionSchema.extend({
+  status: z.enum(["done", "in-progress", "open"]).catch("open"),
+  note: text
+});
+
+export const extractionSchema = z.object({
+  summary: z.preprocess(v => (Array.isArray(v) ? v.join("\n") : v), text),
+  context: z.preprocess(v => (Array.isArray(v) ? v.join("\n\n") : v), text),
+  decisions: z.array(item).default([]),
+  actions: z.array(actionSchema).default([]),
+  questions: z.array(item).default([]),
+  previous: z.array(previousActionSchema).default([])
+});
+
+export type ExtractedAction = z.infer<typeof actionSchema>;
+export type ExtractedPreviousAction = z.infer<typeof previousActionSchema>;
+export type Extraction = z.infer<typeof extractionSchema>;
+
+export type ValidationReport = {
+  repaired: boolean; // a repair pass was needed
+  dropped: string[]; // paths that were discarded, e.g. "actions[2]"
+};
+
+type Checked =
+  | { ok: true; data: Extraction }
+  | { ok: false; issues: string[]; json: unknown };
+
+/* ---------- helpers ---------- */
+function pathOf(path: (string | number)[]) {
+  return path.reduce<string>(
+    (acc, p) => (typeof p === "number" ? `${acc}[${p}]` : acc ? `${acc}.${p}` : p),
+    ""
+  ) || "(root)";
+}
+
+function parseJSON(raw: string): { ok: true; json: unknown } | { ok: false } {
+  try {
+    return { ok: true, json: JSON.parse(raw) };
+  } catch {
+    // some models wrap the object in prose or a code fence
+    const m = raw.match(/\{[\s\S]*\}/);
+    if (!m) return { ok: false };
+    try {
+      return { ok: true, json: JSON.parse(m[0]) };
+    } catch {
+      return { ok: false };
+    }
+  }
+}
+
+export function checkExtraction(raw: string): Checked {
+  const parsed = parseJSON(raw);
+  if (!parsed.ok) return { ok: false, issues: ["(root): response was not valid JSON"], json: null };
+
+  const res = extractionSchema.safeParse(parsed.json);
+  if (res.success) return { ok: true, data: res.data };
+  return {
+    ok: false,
+    issues: res.error.issues.map(i => `${pathOf(i.path)}: ${i.message}`),
+    json: parsed.json
+  };
+}
+
+export function repairPrompt(issues: string[]) {
+  return `
+Your previous reply did not match the required schema:
+${issues.map(i => `- ${i}`).join("\n")}
+
+Return the corrected JSON object only. Keep every valid value; fix or remove only the invalid ones.
+`.trim();
+}
+
+/**
+ * Keeps every field and list item that validates on its own and reports the
+ * rest, so one bad action no longer costs the whole extraction.
+ */
+export function salvageExtraction(json: unknown): { data: Extraction; dropped: string[] } {
+  const obj = json && typeof json === "object" && !Array.isArray(json) ? (json as Record<string, unknown>) : {};
+  const dropped: string[] = [];
+  if (obj !== json) dropped.push("(root)");
+
+  const summary = extractionSchema.shape.summary.safeParse(obj.summary);
+  if (!summary.success) dropped.push("summary");
+  const context = extractionSchema.shape.context.safeParse(obj.context);
+  if (!context.success) dropped.push("context");
+
+  function list<T>(key: "decisions" | "actions" | "questions" | "previous", schema: z.ZodType<T, z.ZodTypeDef, unknown>): T[] {
+    const v = obj[key];
+    if (v == null) return [];
+    if (!Array.isArray(v)) {
+      dropped.push(key);
+      return [];
+    }
+    const out: T[] = [];
+    v.forEach((x, i) => {
+      const r = schema.safeParse(x);
+      if (r.success) out.push(r.data);
+      else dropped.push(`${key}[${i}]`);
+    });
+    return out;
+  }
+
+  return {
+    data: {
+      summary: summary.success ? summary.data : "",
+      context: context.success ? context.data : "",
+      decisions: list("decisions", item),
+      actions: list("actions", actionSchema),
+      questions: list("questions", item),
+      previous: list("previous", previousActionSchema)
+    },
+    dropped
+  };
+}
+
+/**
+ * Incremental scanner over a streamed extraction. Calls `onSection` once per
+ * top-level key as soon as its value is complete and validates on its own.
+ */
+export function createSectionScanner(onSection: (key: keyof Extraction, value: unknown) => void) {
+  let buf = "";
+  let pos = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let strStart = -1;
+  let expectKey = false;
+  let key = "";
+  let valueStart = -1;
+
+  function emit(end: number) {
+    const shape = extractionSchema.shape as Record<string, z.ZodTypeAny>;
+    if (!(key in shape) || valueStart < 0) return;
+    try {
+      const r = shape[key].safeParse(JSON.parse(buf.slice(valueStart, end)));
+      if (r.success) onSection(key as keyof Extraction, r.data);
+    } catch {
+      // partial or malformed value; the final validation pass reports it
+    }
+  }
+
+  return (delta: string) => {
+    buf += delta;
+    for (; pos < buf.length; pos++) {
+      const c = buf[pos];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (c === "\\") escaped = true;
+        else if (c === '"') {
+          inString = false;
+          if (depth === 1 && expectKey) key = JSON.parse(buf.slice(strStart, pos + 1));
+        }
+        continue;
+      }
+      if (c === '"') {
+        inString = true;
+        strStart = pos;
+      } else if (c === "{" || c === "[") {
+        depth++;
+        if (depth === 1) expectKey = true;
+      } else if (c === "}" || c === "]") {
+        if (depth === 1) emit(pos);
+        depth--;
+      } else if (depth === 1 && c === ":") {
+        expectKey = false;
+        valueStart = pos + 1;
+      } else if (depth === 1 && c === ",") {
+        emit(pos);
+        expectKey = true;
+        valueStart = -1;
+      }
+    }
+  };
+}
@@ -0,0 +1,373 @@
+// lib/i18n.ts
+// Fixed email copy (greetings, intros, sign-offs, headings, labels, subject
+// suffixes) per output language, plus the date locale each language falls
+// back to when the reader's locale is in another language.
+import type { PresetCopy, PresetName, SectionId } from "@/lib/templates";
+import type { ActionStatus } from "@/utils/format";
+
+export const LANGUAGES = [
+  { id: "en", label: "English", locale: "en-GB", languageTool: "en-GB" },
+  { id: "de", label: "Deutsch", locale: "de-DE", languageTool: "de-DE" },
+  { id: "fr", label: "Français", locale: "fr-FR", languageTool: "fr" },
+  { id: "es", label: "Español", locale: "es-ES", languageTool: "es" },
+  { id: "nl", label: "Nederlands", locale: "nl-NL", languageTool: "nl" }
+] as const;
+
+export type Language = (typeof LANGUAGES)[number]["id"];
+export const LANGUAGE_IDS = LANGUAGES.map(l => l.id) as [Language, ...Language[]];
+
+// English names for the extraction prompt
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: "English",
+  de: "German",
+  fr: "French",
+  es: "Spanish",
+  nl: "Dutch"
+};
+
+type Tone = "concise" | "formal" | "friendly" | "persuasive" | "casual";
+type Audience = "internal" | "client" | "stakeholder";
+type EmailType = "summary" | "follow-up" | "action-only";
+
+export type EmailStrings = {
+  greeting: Record<Audience, string>;
+  // `title` is undefined when none was given; each tone has its own fallback
+  intro: Record<Tone, (title: string | undefined, when: string) => string>;
+  today: string;
+  meeting: string; // subject fallback and {title} placeholder
+  theMeeting: string;
+  signoff: Record<Tone, string>;
+  headings: Record<SectionId, string>;
+  subject: Record<EmailType, string>;
+  status: Record<ActionStatus, string>;
+  attendees: string;
+  owner: string;
+  task: string;
+  due: string;
+  statusColumn: string;
+  why: string;
+  tbd: string;
+  open: string; // prefix for open questions in short emails
+  and: string;
+  more: (n: number) => string;
+  overdue: string;
+  confirm: string;
+  wasDue: (due: string) => string;
+  presets: Record<PresetName, PresetCopy>; // built-in template wording
+};
+
+/* =========================
+   Strings
+   ========================= */
+const en: EmailStrings = {
+  greeting: { internal: "Hi all,", client: "Hi team,", stakeholder: "Hello," },
+  intro: {
+    formal: (t, when) => `The key takeaways from the "${t ?? "meeting"}" session held on ${when} are summarised below.`,
+    friendly: (t, when) => `Thanks for joining "${t ?? "our meeting"}" on ${when}. Here’s a clear recap and what’s next.`,
+    persuasive: (t, when) => `Following "${t ?? "the meeting"}" on ${when}, here’s where we landed and what we need to move forward.`,
+    casual: (t, when) => `Hey folks — quick recap from "${t ?? "today’s chat"}" (${when}).`,
+    concise: (t, when) => `Here’s a quick follow-up from "${t ?? "the meeting"}" (${when}).`
+  },
+  today: "today",
+  meeting: "Meeting",
+  theMeeting: "the meeting",
+  signoff: { formal: "Best regards,", persuasive: "Thanks in advance,", casual: "Cheers,", friendly: "Thanks so much,", concise: "Thanks!" },
+  headings: {
+    context: "Context",
+    summary: "Summary",
+    keyPoints: "Key Points",
+    decisions: "Decisions",
+    previous: "Previous Action Items",
+    actions: "Action Items",
+    questions: "Open Questions"
+  },
+  subject: { summary: "summary", "action-only": "action items", "follow-up": "follow-up" },
+  status: { done: "Done", "in-progress": "In progress", open: "Open" },
+  attendees: "Attendees",
+  owner: "Owner",
+  task: "Task",
+  due: "Due",
+  statusColumn: "Status",
+  why: "Why",
+  tbd: "TBD",
+  open: "Open",
+  and: "and",
+  more: n => `…and ${n} more`,
+  overdue: "overdue",
+  confirm: "please confirm",
+  wasDue: d => `was due ${d}`,
+  presets: {
+    "Next steps first": {
+      subject: "{title} — next steps",
+      headings: { actions: "Next Steps", previous: "Last Week's Actions", summary: "Recap" }
+    },
+    "Client update": {
+      greeting: "Dear all,",
+      intro: "Thank you for your time on {date}. Below is a summary of \"{title}\" covering {sections}.",
+      signoff: "Kind regards,",
+      headings: { decisions: "Agreed", actions: "Next Steps" },
+      audiences: { internal: { greeting: "Hi team,", signoff: "Thanks," } }
+    },
+    "Stand-up": {
+      subject: "{title} — status",
+      greeting: "Hi all,",
+      intro: "Status from {title} ({date}).",
+      signoff: "Thanks,",
+      headings: { previous: "Since Last Time", actions: "Today", questions: "Blockers" }
+    }
+  }
+};
+
+const de: EmailStrings = {
+  greeting: { internal: "Hallo zusammen,", client: "Guten Tag,", stakeholder: "Hallo," },
+  intro: {
+    formal: (t, when) => `Nachfolgend die wichtigsten Ergebnisse aus „${t ?? "dem Termin"}“ (${when}).`,
+    friendly: (t, when) => `Danke für eure Teilnahme an „${t ?? "unserem Meeting"}“ (${when}). Hier die Zusammenfassung und die nächsten Schritte.`,
+    persuasive: (t, when) => `Nach „${t ?? "dem Meeting"}“ (${when}): Hier ist unser Stand und was wir brauchen, um voranzukommen.`,
+    casual: (t, when) => `Hey zusammen — kurzer Rückblick auf „${t ?? "unser Gespräch"}“ (${when}).`,
+    concise: (t, when) => `Kurzes Follow-up zu „${t ?? "dem Meeting"}“ (${when}).`
+  },
+  today: "heute",
+  meeting: "Meeting",
+  theMeeting: "das Meeting",
+  signoff: { formal: "Mit freundlichen Grüßen", persuasive: "Vielen Dank im Voraus", casual: "Viele Grüße", friendly: "Herzlichen Dank", concise: "Danke!" },
+  headings: {
+    context: "Hintergrund",
+    summary: "Zusammenfassung",
+    keyPoints: "Kernpunkte",
+    decisions: "Entscheidungen",
+    previous: "Aufgaben aus dem letzten Termin",
+    actions: "Aufgaben",
+    questions: "Offene Fragen"
+  },
+  subject: { summary: "Zusammenfassung", "action-only": "Aufgaben", "follow-up": "Follow-up" },
+  status: { done: "Erledigt", "in-progress": "In Arbeit", open: "Offen" },
+  attendees: "Teilnehmende",
+  owner: "Verantwortlich",
+  task: "Aufgabe",
+  due: "Fällig",
+  statusColumn: "Status",
+  why: "Warum",
+  tbd: "N. N.",
+  open: "Offen",
+  and: "und",
+  more: n => `…und ${n} weitere`,
+  overdue: "überfällig",
+  confirm: "bitte bestätigen",
+  wasDue: d => `war fällig: ${d}`,
+  presets: {
+    "Next steps first": {
+      subject: "{title} — nächste Schritte",
+      headings: { actions: "Nächste Schritte", previous: "Aufgaben der letzten Woche", summary: "Rückblick" }
+    },
+    "Client update": {
+      greeting: "Sehr geehrte Damen und Herren,",
+      intro: "Vielen Dank für Ihre Zeit am {date}. Nachfolgend eine Zusammenfassung von „{title}“ mit {sections}.",
+      signoff: "Mit freundlichen Grüßen",
+      headings: { decisions: "Vereinbart", actions: "Nächste Schritte" },
+      audiences: { internal: { greeting: "Hallo Team,", signoff: "Danke" } }
+    },
+    "Stand-up": {
+      subject: "{title} — Status",
+      greeting: "Hallo zusammen,",
+      intro: "Status aus {title} ({date}).",
+      signoff: "Danke",
+      headings: { previous: "Seit dem letzten Mal", actions: "Heute", questions: "Blocker" }
+    }
+  }
+};
+
+const fr: EmailStrings = {
+  greeting: { internal: "Bonjour à tous,", client: "Bonjour,", stakeholder: "Bonjour," },
+  intro: {
+    formal: (t, when) => `Veuillez trouver ci-dessous les points clés de « ${t ?? "la réunion"} » (${when}).`,
+    friendly: (t, when) => `Merci d’avoir participé à « ${t ?? "notre réunion"} » (${when}). Voici un récapitulatif et la suite.`,
+    persuasive: (t, when) => `Suite à « ${t ?? "la réunion"} » (${when}), voici où nous en sommes et ce qu’il nous faut pour avancer.`,
+    casual: (t, when) => `Salut à tous — petit récap de « ${t ?? "notre échange"} » (${when}).`,
+    concise: (t, when) => `Petit suivi de « ${t ?? "la réunion"} » (${when}).`
+  },
+  today: "aujourd’hui",
+  meeting: "Réunion",
+  theMeeting: "la réunion",
+  signoff: { formal: "Cordialement,", persuasive: "Merci d’avance,", casual: "À bientôt,", friendly: "Merci beaucoup,", concise: "Merci !" },
+  headings: {
+    context: "Contexte",
+    summary: "Résumé",
+    keyPoints: "Points clés",
+    decisions: "Décisions",
+    previous: "Actions précédentes",
+    actions: "Actions",
+    questions: "Questions ouvertes"
+  },
+  subject: { summary: "résumé", "action-only": "actions", "follow-up": "suivi" },
+  status: { done: "Terminé", "in-progress": "En cours", open: "Ouvert" },
+  attendees: "Participants",
+  owner: "Responsable",
+  task: "Tâche",
+  due: "Échéance",
+  statusColumn: "Statut",
+  why: "Pourquoi",
+  tbd: "À définir",
+  open: "Ouvert",
+  and: "et",
+  more: n => `…et ${n} de plus`,
+  overdue: "en retard",
+  confirm: "à confirmer",
+  wasDue: d => `prévu le ${d}`,
+  presets: {
+    "Next steps first": {
+      subject: "{title} — prochaines étapes",
+      headings: { actions: "Prochaines étapes", previous: "Actions de la semaine dernière", summary: "Récapitulatif" }
+    },
+    "Client update": {
+      greeting: "Madame, Monsieur,",
+      intro: "Merci pour votre temps le {date}. Vous trouverez ci-dessous un résumé de « {title} » : {sections}.",
+      signoff: "Bien cordialement,",
+      headings: { decisions: "Convenu", actions: "Prochaines étapes" },
+      audiences: { internal: { greeting: "Bonjour l’équipe,", signoff: "Merci," } }
+    },
+    "Stand-up": {
+      subject: "{title} — point d’étape",
+      greeting: "Bonjour à tous,",
+      intro: "Point d’étape de {title} ({date}).",
+      signoff: "Merci,",
+      headings: { previous: "Depuis la dernière fois", actions: "Aujourd’hui", questions: "Blocages" }
+    }
+  }
+};
+
+const es: EmailStrings = {
+  greeting: { internal: "Hola a todos,", client: "Hola,", stakeholder: "Buenos días," },
+  intro: {
+    formal: (t, when) => `A continuación, los puntos clave de «${t ?? "la reunión"}» (${when}).`,
+    friendly: (t, when) => `Gracias por participar en «${t ?? "nuestra reunión"}» (${when}). Aquí tienes un resumen y los próximos pasos.`,
+    persuasive: (t, when) => `Tras «${t ?? "la reunión"}» (${when}), así estamos y esto es lo que necesitamos para avanzar.`,
+    casual: (t, when) => `Hola a todos — resumen rápido de «${t ?? "nuestra charla"}» (${when}).`,
+    concise: (t, when) => `Breve seguimiento de «${t ?? "la reunión"}» (${when}).`
+  },
+  today: "hoy",
+  meeting: "Reunión",
+  theMeeting: "la reunión",
+  signoff: { formal: "Saludos cordiales,", persuasive: "Gracias de antemano,", casual: "¡Saludos!", friendly: "Muchas gracias,", concise: "¡Gracias!" },
+  headings: {
+    context: "Contexto",
+    summary: "Resumen",
+    keyPoints: "Puntos clave",
+    decisions: "Decisiones",
+    previous: "Acciones anteriores",
+    actions: "Acciones",
+    questions: "Preguntas abiertas"
+  },
+  subject: { summary: "resumen", "action-only": "acciones", "follow-up": "seguimiento" },
+  status: { done: "Hecho", "in-progress": "En curso", open: "Abierto" },
+  attendees: "Asistentes",
+  owner: "Responsable",
+  task: "Tarea",
+  due: "Fecha límite",
+  statusColumn: "Estado",
+  why: "Por qué",
+  tbd: "Por asignar",
+  open: "Abierto",
+  and: "y",
+  more: n => `…y ${n} más`,
+  overdue: "vencida",
+  confirm: "por confirmar",
+  wasDue: d => `vencía ${d}`,
+  presets: {
+    "Next steps first": {
+      subject: "{title} — próximos pasos",
+      headings: { actions: "Próximos pasos", previous: "Acciones de la semana pasada", summary: "Recapitulación" }
+    },
+    "Client update": {
+      greeting: "Estimados todos:",
+      intro: "Gracias por su tiempo el {date}. A continuación, un resumen de «{title}» que cubre {sections}.",
+      signoff: "Saludos cordiales,",
+      headings: { decisions: "Acordado", actions: "Próximos pasos" },
+      audiences: { internal: { greeting: "Hola, equipo:", signoff: "Gracias," } }
+    },
+    "Stand-up": {
+      subject: "{title} — estado",
+      greeting: "Hola a todos,",
+      intro: "Estado de {title} ({date}).",
+      signoff: "Gracias,",
+      headings: { previous: "Desde la última vez", actions: "Hoy", questions: "Bloqueos" }
+    }
+  }
+};
+
+const nl: EmailStrings = {
+  greeting: { internal: "Hoi allemaal,", client: "Beste allen,", stakeholder: "Hallo," },
+  intro: {
+    formal: (t, when) => `Hieronder de belangrijkste punten uit "${t ?? "het overleg"}" (${when}).`,
+    friendly: (t, when) => `Bedankt voor je deelname aan "${t ?? "ons overleg"}" (${when}). Hier een helder overzicht en de volgende stappen.`,
+    persuasive: (t, when) => `Na "${t ?? "het overleg"}" (${when}): dit is waar we staan en wat we nodig hebben om verder te komen.`,
+    casual: (t, when) => `Hoi allemaal — korte recap van "${t ?? "ons gesprek"}" (${when}).`,
+    concise: (t, when) => `Korte follow-up van "${t ?? "het overleg"}" (${when}).`
+  },
+  today: "vandaag",
+  meeting: "Overleg",
+  theMeeting: "het overleg",
+  signoff: { formal: "Met vriendelijke groet,", persuasive: "Alvast bedankt,", casual: "Groetjes,", friendly: "Hartelijk dank,", concise: "Bedankt!" },
+  headings: {
+    context: "Context",
+    summary: "Samenvatting",
+    keyPoints: "Kernpunten",
+    decisions: "Besluiten",
+    previous: "Eerdere actiepunten",
+    actions: "Actiepunten",
+    questions: "Open vragen"
+  },
+  subject: { summary: "samenvatting", "action-only": "actiepunten", "follow-up": "follow-up" },
+  status: { done: "Klaar", "in-progress": "Bezig", open: "Open" },
+  attendees: "Aanwezig",
+  owner: "Eigenaar",
+  task: "Taak",
+  due: "Deadline",
+  statusColumn: "Status",
+  why: "Waarom",
+  tbd: "n.t.b.",
+  open: "Open",
+  and: "en",
+  more: n => `…en nog ${n}`,
+  overdue: "te laat",
+  confirm: "graag bevestigen",
+  wasDue: d => `gepland ${d}`,
+  presets: {
+    "Next steps first": {
+      subject: "{title} — volgende stappen",
+      headings: { actions: "Volgende stappen", previous: "Acties van vorige week", summary: "Terugblik" }
+    },
+    "Client update": {
+      greeting: "Beste allen,",
+      intro: "Dank voor uw tijd op {date}. Hieronder een samenvatting van \"{title}\" met {sections}.",
+      signoff: "Met vriendelijke groet,",
+      headings: { decisions: "Afgesproken", actions: "Volgende stappen" },
+      audiences: { internal: { greeting: "Hoi team,", signoff: "Bedankt," } }
+    },
+    "Stand-up": {
+      subject: "{title} — status",
+      greeting: "Hoi allemaal,",
+      intro: "Status van {title} ({date}).",
+      signoff: "Bedankt,",
+      headings: { previous: "Sinds de vorige keer", actions: "Vandaag", questions: "Blokkades" }
+    }
+  }
+};
+
+const STRINGS: Record<Language, EmailStrings> = { en, de, fr, es, nl };
+
+export function strings(language: Language = "en"): EmailStrings {
+  return STRINGS[language] ?? en;
+}
+
+/** The reader's locale when it is in the output language, else that language's default. */
+export function localeFor(language: Language = "en", locale?: string): string {
+  if (locale && locale.toLowerCase().split("-")[0] === language) return locale;
+  return LANGUAGES.find(l => l.id === language)?.locale ?? "en-GB";
+}
+
+/** LanguageTool language code, keeping the reader's English variant (en-US vs en-GB). */
+export function languageToolCode(language: Language = "en", locale?: string): string {
+  if (language === "en" && /^en-(US|GB|AU|CA|NZ|ZA)$/i.test(locale ?? "")) return locale!;
+  return LANGUAGES.find(l => l.id === language)?.languageTool ?? "en-GB";
+}
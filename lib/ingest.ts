@@ -0,0 +1,314 @@
+// lib/ingest.ts
+// Turns uploaded meeting files (VTT/SRT transcripts, DOCX, Markdown, plain
+// text) into normalized notes: one "Speaker: text" line per turn for
+// transcripts, timestamps and filler removed. Shared by the browser upload
+// and /api/ingest; DOCX is unzipped with the built-in DecompressionStream.
+
+export type IngestFormat = "vtt" | "srt" | "docx" | "markdown" | "text";
+
+export type IngestResult = {
+  format: IngestFormat;
+  notes: string;
+  speakers: string[]; // in order of first appearance
+  parts: number; // model extraction passes the notes will take (see chunkNotes)
+};
+
+export const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+// a request body may carry the multipart envelope on top of the file
+export const MAX_UPLOAD_BODY_BYTES = MAX_UPLOAD_BYTES + 64 * 1024;
+// word/document.xml unpacked; a small zip bomb must not fill the server's memory
+const MAX_ENTRY_BYTES = 8 * 1024 * 1024;
+// one model extraction pass; the pipeline splits longer notes with chunkNotes
+export const CHUNK_CHARS = Number(process.env.LLM_CHUNK_CHARS) || 12_000;
+
+export const INGEST_ACCEPT = ".vtt,.srt,.docx,.md,.markdown,.txt";
+
+type Turn = { speaker: string; text: string };
+
+/* ---------- detection ---------- */
+export function detectFormat(name: string, head = ""): IngestFormat | null {
+  const ext = name.toLowerCase().match(/\.([a-z]+)$/)?.[1] ?? "";
+  if (ext === "vtt" || head.startsWith("WEBVTT")) return "vtt";
+  if (ext === "srt") return "srt";
+  if (ext === "docx") return "docx";
+  if (ext === "md" || ext === "markdown") return "markdown";
+  if (ext === "txt" || ext === "") return "text";
+  return null;
+}
+
+/* ---------- text cleanup ---------- */
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, e: string) => {
+    if (e[0] === "#") {
+      const code = e[1] === "x" || e[1] === "X" ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : m;
+    }
+    return ENTITIES[e.toLowerCase()] ?? m;
+  });
+}
+
+const TIMESTAMP_RE = /^\s*[\[(]?\d{1,2}:\d{2}(?::\d{2})?(?:[.,]\d{1,3})?[\])]?\s*(?:-\s*)?/;
+const FILLER_RE = /(^|[\s,])(?:um+|uh+|uhm+|erm+|er|ah+|hmm+|mhm+|uh-huh|you know|i mean)(?=[\s,.!?]|$)[,.]?/gi;
+// whole turns that carry no content
+const ACK_RE = /^(?:yeah|yep|yes|no|ok(?:ay)?|right|sure|cool|great|thanks?(?: you)?|got it|sounds good|mm|uh|um|hmm|alright|perfect|exactly)[.!?]*$/i;
+
+function cleanUtterance(s: string): string {
+  const t = s
+    .replace(FILLER_RE, "$1")
+    .replace(/\s+([,.!?])/g, "$1")
+    .replace(/^[,.\s]+/, "")
+    .replace(/,{2,}/g, ",")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+  return t.charAt(0).toUpperCase() + t.slice(1);
+}
+
+// "Anna Smith: text", "[Anna] text", "ANNA: text"
+const SPEAKER_RE = /^(?:\[([^\]]{1,40})\]\s*|([A-Z][\w.'’-]*(?:\s+[A-Z0-9][\w.'’-]*){0,3})\s*:\s+)/;
+const NOT_SPEAKERS = new Set(["note", "notes", "action", "ai", "todo", "q", "a", "decision", "question", "owner", "due", "re", "fyi", "ps"]);
+
+export function splitSpeaker(line: string): Turn | null {
+  const m = line.match(SPEAKER_RE);
+  if (!m) return null;
+  const speaker = (m[1] ?? m[2]).trim();
+  if (NOT_SPEAKERS.has(speaker.toLowerCase())) return null;
+  return { speaker, text: line.slice(m[0].length) };
+}
+
+/** Drops filler and acknowledgements and merges consecutive turns by the same speaker. */
+function compactTurns(turns: Turn[]): Turn[] {
+  const out: Turn[] = [];
+  for (const t of turns) {
+    const text = cleanUtterance(t.text);
+    if (!text || ACK_RE.test(text)) continue;
+    const last = out[out.length - 1];
+    if (last && last.speaker === t.speaker) last.text += " " + text;
+    else out.push({ speaker: t.speaker, text });
+  }
+  return out;
+}
+
+// one sentence per line keeps line-based extraction working on merged cues
+function renderTurns(turns: Turn[]): string {
+  return turns
+    .flatMap(t => t.text.split(/(?<=[.!?])\s+(?=["'“A-Z])/).map(s => (t.speaker ? `${t.speaker}: ${s}` : s)))
+    .join("\n");
+}
+
+/* ---------- VTT / SRT ---------- */
+function cueTurns(payload: string[]): Turn[] {
+  const turns: Turn[] = [];
+  for (const raw of payload) {
+    // WebVTT voice spans: <v Anna Smith>text</v>, <v.loud Anna>
+    const voice = raw.match(/<v(?:\.[\w.]+)?\s+([^>]+)>/);
+    const line = decodeEntities(raw.replace(/<[^>]+>/g, "")).trim();
+    if (!line) continue;
+    if (voice) turns.push({ speaker: voice[1].trim(), text: line });
+    else {
+      // SRT dialogue dashes, then "Name: text"
+      const plain = line.replace(/^-\s+/, "");
+      turns.push(splitSpeaker(plain) ?? { speaker: turns[turns.length - 1]?.speaker ?? "", text: plain });
+    }
+  }
+  return turns;
+}
+
+function parseCues(text: string, format: "vtt" | "srt"): Turn[] {
+  const turns: Turn[] = [];
+  for (const block of text.split(/\r?\n\s*\r?\n/)) {
+    const lines = block.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+    if (!lines.length) continue;
+    if (format === "vtt" && /^(WEBVTT|NOTE|STYLE|REGION)\b/.test(lines[0])) continue;
+    const timing = lines.findIndex(l => l.includes("-->"));
+    if (timing < 0) continue; // not a cue
+    turns.push(...cueTurns(lines.slice(timing + 1)));
+  }
+  return turns;
+}
+
+/* ---------- DOCX ---------- */
+// stops past `maxBytes` of output instead of trusting the ratio
+async function inflateRaw(data: Uint8Array, maxBytes: number): Promise<Uint8Array> {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw")).getReader();
+  const out = new Uint8Array(maxBytes);
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (size + value.byteLength > maxBytes) {
+      await reader.cancel().catch(() => {});
+      throw new Error("DOCX entry is larger than it claims or than the limit.");
+    }
+    out.set(value, size);
+    size += value.byteLength;
+  }
+  return out.subarray(0, size);
+}
+
+/** Reads one entry from a ZIP archive via its central directory. */
+async function readZipEntry(zip: Uint8Array, path: string): Promise<Uint8Array | null> {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  let eocd = -1;
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 65_557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) { eocd = i; break; }
+  }
+  if (eocd < 0) return null;
+  const count = view.getUint16(eocd + 10, true);
+  let p = view.getUint32(eocd + 16, true);
+  const dec = new TextDecoder();
+  for (let n = 0; n < count && view.getUint32(p, true) === 0x02014b50; n++) {
+    const method = view.getUint16(p + 10, true);
+    const size = view.getUint32(p + 20, true);
+    const unpacked = view.getUint32(p + 24, true);
+    const nameLen = view.getUint16(p + 28, true);
+    const extraLen = view.getUint16(p + 30, true);
+    const commentLen = view.getUint16(p + 32, true);
+    const local = view.getUint32(p + 42, true);
+    const name = dec.decode(zip.subarray(p + 46, p + 46 + nameLen));
+    if (name === path) {
+      const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+      const body = zip.subarray(start, start + size);
+      if (method === 0) return body;
+      if (method === 8) return inflateRaw(body, Math.min(unpacked, MAX_ENTRY_BYTES));
+      return null;
+    }
+    p += 46 + nameLen + extraLen + commentLen;
+  }
+  return null;
+}
+
+/** WordprocessingML paragraphs → Markdown-ish lines (headings, list bullets). */
+export function docxXmlToText(xml: string): string {
+  const lines: string[] = [];
+  for (const [para] of xml.matchAll(/<w:p[ >][\s\S]*?<\/w:p>/g)) {
+    let text = "";
+    for (const m of para.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:(tab|br|cr)\/>/g)) {
+      text += m[2] ? (m[2] === "tab" ? "\t" : "\n") : decodeEntities(m[1]);
+    }
+    if (!text.trim()) continue;
+    const style = para.match(/<w:pStyle w:val="([^"]+)"/)?.[1] ?? "";
+    const heading = style.match(/^(?:Heading(\d)|Title)$/i);
+    if (heading) {
+      lines.push("#".repeat(Math.min(Number(heading[1] ?? 1), 6)) + " " + text.trim());
+    } else if (/<w:numPr>/.test(para) || /^List/i.test(style)) {
+      const level = Number(para.match(/<w:ilvl w:val="(\d+)"/)?.[1] ?? 0);
+      lines.push("  ".repeat(level) + "- " + text.trim());
+    } else {
+      lines.push(text.trim());
+    }
+  }
+  return lines.join("\n");
+}
+
+/* ---------- plain text & Markdown ---------- */
+function normalizeText(text: string, markdown: boolean): string {
+  let t = text.replace(/\r\n?/g, "\n");
+  if (markdown) {
+    t = t
+      .replace(/^---\n[\s\S]*?\n---\n/, "") // front matter
+      .replace(/<!--[\s\S]*?-->/g, "")
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1");
+  }
+  return t
+    .split("\n")
+    .map(l => l.replace(TIMESTAMP_RE, "").replace(/\s+$/, ""))
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/** Plain-text transcripts ("Anna: …" on most lines) get the same turn cleanup as VTT/SRT. */
+function textTurns(text: string): Turn[] | null {
+  const lines = text.split("\n").filter(l => l.trim());
+  const turns: Turn[] = [];
+  let labelled = 0;
+  for (const l of lines) {
+    const t = splitSpeaker(l.trim());
+    if (t) labelled++;
+    turns.push(t ?? { speaker: turns[turns.length - 1]?.speaker ?? "", text: l.trim() });
+  }
+  return lines.length >= 3 && labelled / lines.length >= 0.6 ? turns : null;
+}
+
+/* ---------- chunking ---------- */
+// spoken topic changes: "Moving on to hiring", "Next topic: budget"
+const TOPIC_RE = /^(?:[^:]{1,40}:\s*)?(?:next (?:topic|item|up)|moving on|switching to|let's move on|agenda item|topic\s*\d*\s*:)/i;
+
+/**
+ * Splits notes into chunks of at most `max` characters, preferring headings,
+ * blank lines, topic changes and speaker changes as cut points. Oversized
+ * lines are split on sentence ends.
+ */
+export function chunkNotes(notes: string, max = CHUNK_CHARS): string[] {
+  if (notes.length <= max) return notes.trim() ? [notes] : [];
+  const pieces: string[] = [];
+  for (const line of notes.split("\n")) {
+    if (line.length <= max) { pieces.push(line); continue; }
+    let cur = "";
+    for (const s of line.match(/[^.!?]+[.!?]*\s*/g) ?? [line]) {
+      if (cur && cur.length + s.length > max) { pieces.push(cur.trimEnd()); cur = ""; }
+      cur += s;
+    }
+    if (cur) pieces.push(cur.trimEnd());
+  }
+
+  const chunks: string[] = [];
+  let cur: string[] = [];
+  let size = 0;
+  let speaker = "";
+  for (const line of pieces) {
+    const who = splitSpeaker(line)?.speaker ?? speaker;
+    const boundary = !line.trim() || /^#{1,6}\s/.test(line) || TOPIC_RE.test(line) || who !== speaker;
+    speaker = who;
+    const full = size + line.length + 1 > max;
+    // past 80% of the budget, cut at the next natural boundary
+    if (cur.length && (full || (boundary && size > max * 0.8))) {
+      chunks.push(cur.join("\n").trim());
+      cur = [];
+      size = 0;
+    }
+    cur.push(line);
+    size += line.length + 1;
+  }
+  if (cur.length) chunks.push(cur.join("\n").trim());
+  return chunks.filter(Boolean);
+}
+
+/* =========================
+   Entry point
+   ========================= */
+function result(format: IngestFormat, notes: string, turns: Turn[] | null): IngestResult {
+  const speakers = turns ? [...new Set(turns.map(t => t.speaker).filter(Boolean))] : [];
+  return { format, notes, speakers, parts: Math.max(1, chunkNotes(notes).length) };
+}
+
+export async function ingestFile(name: string, data: Uint8Array | ArrayBuffer | string): Promise<IngestResult> {
+  const bytes = typeof data === "string" ? null : data instanceof Uint8Array ? data : new Uint8Array(data);
+  const text = typeof data === "string" ? data : new TextDecoder().decode(bytes!).replace(/^\uFEFF/, "");
+  const format = detectFormat(name, text.slice(0, 16));
+  if (!format) throw new Error(`Unsupported file type: ${name}`);
+
+  switch (format) {
+    case "vtt":
+    case "srt": {
+      const turns = compactTurns(parseCues(text, format));
+      return result(format, renderTurns(turns), turns);
+    }
+    case "docx": {
+      const xml = bytes && (await readZipEntry(bytes, "word/document.xml"));
+      if (!xml) throw new Error(`Could not read ${name} as a .docx document.`);
+      const notes = normalizeText(docxXmlToText(new TextDecoder().decode(xml)), true);
+      const turns = textTurns(notes);
+      return turns ? result(format, renderTurns(compactTurns(turns)), turns) : result(format, notes, null);
+    }
+    case "markdown":
+    case "text": {
+      const notes = normalizeText(text, format === "markdown");
+      const turns = textTurns(notes);
+      return turns ? result(format, renderTurns(compactTurns(turns)), turns) : result(format, notes, null);
+    }
+  }
+}
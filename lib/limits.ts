@@ -0,0 +1,313 @@
+// lib/limits.ts
+// Abuse protection for the model-backed routes: token-bucket rate limits per
+// client IP and per API key, a bounded JSON body reader, and a daily cap on
+// estimated model tokens. State lives in memory or in a JSON file (for a
+// single long-running server that should keep its counters across restarts).
+import { promises as fs } from "fs";
+import path from "path";
+import { NextResponse } from "next/server";
+
+/* ---------- config ---------- */
+export type LimitsConfig = {
+  ipPerMinute: number; // 0 = off
+  ipBurst: number;
+  keyPerMinute: number;
+  keyBurst: number;
+  apiKeys: string[]; // accepted keys; a valid key gets its own, larger bucket
+  trustedProxyHops: number; // proxies in front of the app that append to X-Forwarded-For; 0 = ignore the header
+  dailyTokenCap: number; // 0 = off
+  maxBodyBytes: number;
+  store: { kind: "memory" } | { kind: "file"; path: string };
+};
+
+function num(v: string | undefined, fallback: number): number {
+  const n = Number(v);
+  return v?.trim() && Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+export function limitsConfigFromEnv(env = process.env): LimitsConfig {
+  const ipPerMinute = num(env.RATE_LIMIT_PER_MINUTE, 10);
+  const keyPerMinute = num(env.RATE_LIMIT_KEY_PER_MINUTE, 60);
+  return {
+    ipPerMinute,
+    ipBurst: num(env.RATE_LIMIT_BURST, ipPerMinute),
+    keyPerMinute,
+    keyBurst: num(env.RATE_LIMIT_KEY_BURST, keyPerMinute),
+    apiKeys: (env.API_KEYS ?? "").split(",").map(k => k.trim()).filter(Boolean),
+    trustedProxyHops: Math.floor(num(env.TRUSTED_PROXY_HOPS, 0)),
+    dailyTokenCap: num(env.DAILY_TOKEN_CAP, 0),
+    maxBodyBytes: num(env.MAX_BODY_BYTES, 1_000_000),
+    store: env.RATE_LIMIT_STORE === "file"
+      ? { kind: "file", path: env.RATE_LIMIT_FILE || path.join(process.cwd(), ".data", "limits.json") }
+      : { kind: "memory" }
+  };
+}
+
+/* ---------- stores ---------- */
+type Entry = { value: unknown; expires: number };
+
+export type LimitStore = {
+  /** Read-modify-write of one key, atomic within this process. */
+  update<T>(key: string, fn: (prev: T | undefined) => T, ttlMs: number): Promise<T>;
+};
+
+export function createMemoryStore(): LimitStore {
+  const map = new Map<string, Entry>();
+  return {
+    async update<T>(key: string, fn: (prev: T | undefined) => T, ttlMs: number) {
+      const now = Date.now();
+      const e = map.get(key);
+      const value = fn(e && e.expires > now ? (e.value as T) : undefined);
+      map.set(key, { value, expires: now + ttlMs });
+      // drop expired entries now and then so the map stays small
+      if (map.size > 10_000) for (const [k, v] of map) if (v.expires <= now) map.delete(k);
+      return value;
+    }
+  };
+}
+
+// one writer per process; updates are queued so concurrent requests don't lose counts
+export function createFileStore(file: string): LimitStore {
+  let data: Record<string, Entry> | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function load() {
+    if (data) return data;
+    try {
+      data = JSON.parse(await fs.readFile(file, "utf8"));
+    } catch {
+      data = {};
+    }
+    return data!;
+  }
+
+  async function save(all: Record<string, Entry>) {
+    const now = Date.now();
+    for (const [k, v] of Object.entries(all)) if (v.expires <= now) delete all[k];
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(all));
+    await fs.rename(tmp, file);
+  }
+
+  return {
+    update<T>(key: string, fn: (prev: T | undefined) => T, ttlMs: number) {
+      const run = queue.then(async () => {
+        const all = await load();
+        const now = Date.now();
+        const e = all[key];
+        const value = fn(e && e.expires > now ? (e.value as T) : undefined);
+        all[key] = { value, expires: now + ttlMs };
+        await save(all);
+        return value;
+      });
+      queue = run.catch(() => {});
+      return run;
+    }
+  };
+}
+
+const stores = new Map<string, LimitStore>();
+
+function storeFor(config: LimitsConfig): LimitStore {
+  const id = config.store.kind === "file" ? `file:${config.store.path}` : "memory";
+  let s = stores.get(id);
+  if (!s) {
+    s = config.store.kind === "file" ? createFileStore(config.store.path) : createMemoryStore();
+    stores.set(id, s);
+  }
+  return s;
+}
+
+/* ---------- token bucket ---------- */
+type Bucket = { tokens: number; at: number };
+
+/** Takes `cost` tokens, all or none; `retryAfter` (seconds) is set when there are too few. */
+export async function takeToken(
+  store: LimitStore,
+  key: string,
+  perMinute: number,
+  burst: number,
+  cost = 1
+): Promise<{ ok: boolean; retryAfter: number }> {
+  const capacity = Math.max(1, burst);
+  const perMs = perMinute / 60_000;
+  let ok = false;
+  const b = await store.update<Bucket>(
+    key,
+    prev => {
+      const now = Date.now();
+      const tokens = prev ? Math.min(capacity, prev.tokens + (now - prev.at) * perMs) : capacity;
+      ok = tokens >= cost;
+      return { tokens: ok ? tokens - cost : tokens, at: now };
+    },
+    Math.ceil(capacity / perMs) + 60_000
+  );
+  return { ok, retryAfter: ok ? 0 : Math.ceil((Math.min(cost, capacity) - b.tokens) / perMs / 1000) };
+}
+
+/* ---------- spend ---------- */
+// rough: ~4 characters per token for the notes, plus prompt and answer per model call
+const CHARS_PER_TOKEN = 4;
+const TOKENS_PER_CALL = 2_000;
+
+export function estimateTokens(text: string, calls = 1): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN) + TOKENS_PER_CALL * calls;
+}
+
+function secondsToUtcMidnight(now = new Date()): number {
+  const next = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.max(1, Math.ceil((next - now.getTime()) / 1000));
+}
+
+/* =========================
+   Guards (call at the top of a route handler)
+   ========================= */
+function tooMany(error: string, retryAfter: number) {
+  return NextResponse.json({ error }, { status: 429, headers: { "Retry-After": String(retryAfter) } });
+}
+
+/**
+ * The address the nearest trusted proxy saw. Clients can write anything into
+ * X-Forwarded-For, so only the entries our own proxies appended count: with
+ * N trusted hops that is the N-th entry from the right. Without a trusted
+ * proxy the headers are ignored and direct clients share one bucket.
+ */
+export function clientIp(req: Request, trustedProxyHops = 0): string {
+  if (trustedProxyHops > 0) {
+    const hops = (req.headers.get("x-forwarded-for") ?? "").split(",").map(h => h.trim()).filter(Boolean);
+    if (hops.length) return hops[Math.max(0, hops.length - trustedProxyHops)];
+    const real = req.headers.get("x-real-ip")?.trim();
+    if (real) return real;
+  }
+  return (req as Request & { ip?: string }).ip || "direct";
+}
+
+// `next start` on its own gives route handlers no peer address
+let warnedShared = false;
+function warnSharedBucket() {
+  if (warnedShared) return;
+  warnedShared = true;
+  console.warn(
+    "Rate limits: no client address is known, so all anonymous clients share one bucket. " +
+      "Behind a reverse proxy, set TRUSTED_PROXY_HOPS to the number of proxies in front of the app."
+  );
+}
+
+function apiKey(req: Request): string | null {
+  const bearer = req.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1];
+  return (req.headers.get("x-api-key") ?? bearer ?? "").trim() || null;
+}
+
+/**
+ * Per-key bucket for requests with a valid API key, per-IP bucket otherwise.
+ * `cost` is the number of requests this one stands for (a batch of model calls).
+ * Returns the error response to send, or null to carry on.
+ */
+export async function rateLimit(
+  req: Request,
+  scope: string,
+  config = limitsConfigFromEnv(),
+  cost = 1
+): Promise<NextResponse | null> {
+  const store = storeFor(config);
+  const key = apiKey(req);
+  if (key && config.apiKeys.length) {
+    if (!config.apiKeys.includes(key)) return NextResponse.json({ error: "Unknown API key." }, { status: 401 });
+    if (!config.keyPerMinute) return null;
+    const r = await takeToken(store, `${scope}:key:${config.apiKeys.indexOf(key)}`, config.keyPerMinute, config.keyBurst, cost);
+    return r.ok ? null : tooMany("Rate limit reached for this API key. Try again shortly.", r.retryAfter);
+  }
+  if (!config.ipPerMinute) return null;
+  const ip = clientIp(req, config.trustedProxyHops);
+  if (ip === "direct") warnSharedBucket();
+  const r = await takeToken(store, `${scope}:ip:${ip}`, config.ipPerMinute, config.ipBurst, cost);
+  return r.ok ? null : tooMany("Too many requests. Try again shortly.", r.retryAfter);
+}
+
+/**
+ * For routes that act with the server's own credentials (sending mail, filing
+ * tracker issues): the caller must present one of API_KEYS. With no keys
+ * configured these routes stay off. `caller` identifies the key, not the key itself.
+ */
+export function requireApiKey(
+  req: Request,
+  config = limitsConfigFromEnv()
+): { ok: true; caller: string } | { ok: false; response: NextResponse } {
+  if (!config.apiKeys.length) {
+    return { ok: false, response: NextResponse.json({ error: "This action needs API keys on the server (API_KEYS)." }, { status: 501 }) };
+  }
+  const key = apiKey(req);
+  if (!key) return { ok: false, response: NextResponse.json({ error: "An access key is required." }, { status: 401 }) };
+  if (!config.apiKeys.includes(key)) return { ok: false, response: NextResponse.json({ error: "Unknown API key." }, { status: 401 }) };
+  return { ok: true, caller: `key:${config.apiKeys.indexOf(key)}` };
+}
+
+/** Books `tokens` against today's cap (UTC); refuses once the cap would be exceeded. */
+export async function reserveSpend(tokens: number, config = limitsConfigFromEnv()): Promise<NextResponse | null> {
+  if (!config.dailyTokenCap) return null;
+  const day = new Date().toISOString().slice(0, 10);
+  let ok = false;
+  await storeFor(config).update<number>(
+    `spend:${day}`,
+    spent => {
+      ok = (spent ?? 0) + tokens <= config.dailyTokenCap;
+      return ok ? (spent ?? 0) + tokens : spent ?? 0;
+    },
+    2 * 86_400_000
+  );
+  return ok ? null : tooMany("Today's usage limit has been reached. Try again tomorrow.", secondsToUtcMidnight());
+}
+
+/**
+ * Reads a body without trusting Content-Length (chunked uploads have none):
+ * stops and returns null as soon as it passes `maxBytes`.
+ */
+export async function readBodyBytes(req: Request, maxBytes: number): Promise<Uint8Array | null> {
+  if (Number(req.headers.get("content-length")) > maxBytes) return null;
+  if (!req.body) return new Uint8Array(0);
+
+  const reader = req.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel().catch(() => {});
+      return null;
+    }
+    chunks.push(value);
+  }
+  const bytes = new Uint8Array(size);
+  let at = 0;
+  for (const c of chunks) {
+    bytes.set(c, at);
+    at += c.byteLength;
+  }
+  return bytes;
+}
+
+/**
+ * Reads a JSON body through readBodyBytes.
+ * `value` is null for malformed JSON (callers answer 400 as before).
+ */
+export async function readJsonBody(
+  req: Request,
+  maxBytes = limitsConfigFromEnv().maxBodyBytes
+): Promise<{ ok: true; value: unknown } | { ok: false; response: NextResponse }> {
+  const bytes = await readBodyBytes(req, maxBytes);
+  if (!bytes) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: `Request body is larger than ${maxBytes.toLocaleString("en")} bytes.` }, { status: 413 })
+    };
+  }
+  if (!bytes.byteLength) return { ok: true, value: null };
+  try {
+    return { ok: true, value: JSON.parse(new TextDecoder().decode(bytes)) };
+  } catch {
+    return { ok: true, value: null };
+  }
+}
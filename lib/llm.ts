@@ -0,0 +1,207 @@
+// lib/llm.ts
+// Provider layer for the extraction step. Every provider takes the same chat
+// messages and returns the raw model text; parsing stays in the route.
+
+export type ProviderName = "openai" | "azure" | "anthropic" | "openai-compatible";
+
+export type ChatMessage = { role: "system" | "user" | "assistant"; content: string };
+
+export type CompleteOptions = {
+  json?: boolean; // ask for a single JSON object back
+  signal?: AbortSignal;
+  onDelta?: (text: string) => void; // stream tokens as they arrive; the full text is still returned
+};
+
+export interface LLMProvider {
+  name: ProviderName;
+  model: string;
+  complete(messages: ChatMessage[], opts?: CompleteOptions): Promise<string>;
+}
+
+export type LLMConfig = {
+  provider: ProviderName;
+  model: string;
+  temperature: number;
+  baseURL?: string;
+  apiKey?: string;
+  apiVersion?: string; // Azure only
+};
+
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+  openai: "gpt-4o-mini",
+  azure: "gpt-4o-mini",
+  anthropic: "claude-3-5-haiku-latest",
+  "openai-compatible": "llama3.1"
+};
+
+const PROVIDERS: ProviderName[] = ["openai", "azure", "anthropic", "openai-compatible"];
+
+type Env = Record<string, string | undefined>;
+
+/* ---------- config ---------- */
+function inferProvider(env: Env): ProviderName | null {
+  if (env.LLM_BASE_URL && !env.OPENAI_API_KEY) return "openai-compatible";
+  if (env.OPENAI_API_KEY) return "openai";
+  if (env.AZURE_OPENAI_ENDPOINT && env.AZURE_OPENAI_API_KEY) return "azure";
+  if (env.ANTHROPIC_API_KEY) return "anthropic";
+  return null;
+}
+
+function keyFor(provider: ProviderName, env: Env): string | undefined {
+  if (env.LLM_API_KEY) return env.LLM_API_KEY;
+  switch (provider) {
+    case "openai": return env.OPENAI_API_KEY;
+    case "azure": return env.AZURE_OPENAI_API_KEY;
+    case "anthropic": return env.ANTHROPIC_API_KEY;
+    case "openai-compatible": return undefined;
+  }
+}
+
+/**
+ * Reads the provider config from the environment. Returns null when nothing
+ * is configured, which sends the route down the local extractor path.
+ */
+export function llmConfigFromEnv(env: Env = process.env): LLMConfig | null {
+  const explicit = env.LLM_PROVIDER?.trim().toLowerCase();
+  if (explicit && !PROVIDERS.includes(explicit as ProviderName)) {
+    throw new Error(`Unknown LLM_PROVIDER "${explicit}". Expected one of: ${PROVIDERS.join(", ")}.`);
+  }
+  const provider = (explicit as ProviderName | undefined) ?? inferProvider(env);
+  if (!provider) return null;
+
+  const apiKey = keyFor(provider, env);
+  if (provider !== "openai-compatible" && !apiKey) return null;
+
+  const temperature = Number(env.LLM_TEMPERATURE ?? "0.2");
+  const baseURL =
+    provider === "azure" ? env.AZURE_OPENAI_ENDPOINT ?? env.LLM_BASE_URL :
+    env.LLM_BASE_URL;
+  if (provider === "openai-compatible" && !baseURL) {
+    throw new Error(`LLM_PROVIDER "openai-compatible" needs LLM_BASE_URL (e.g. http://localhost:11434/v1).`);
+  }
+
+  return {
+    provider,
+    model: env.LLM_MODEL || (provider === "azure" && env.AZURE_OPENAI_DEPLOYMENT) || DEFAULT_MODELS[provider],
+    temperature: Number.isFinite(temperature) ? temperature : 0.2,
+    baseURL: baseURL || undefined,
+    apiKey,
+    apiVersion: env.AZURE_OPENAI_API_VERSION || undefined
+  };
+}
+
+/* ---------- OpenAI SDK (OpenAI, Azure, compatible servers) ---------- */
+async function openAIProvider(config: LLMConfig): Promise<LLMProvider> {
+  const { OpenAI, AzureOpenAI } = await import("openai");
+  const client =
+    config.provider === "azure"
+      ? new AzureOpenAI({
+          endpoint: config.baseURL,
+          apiKey: config.apiKey,
+          apiVersion: config.apiVersion ?? "2024-06-01",
+          deployment: config.model
+        })
+      : new OpenAI({
+          // local servers (Ollama, llama.cpp) ignore the key but the SDK requires one
+          apiKey: config.apiKey ?? "not-needed",
+          baseURL: config.baseURL
+        });
+
+  return {
+    name: config.provider,
+    model: config.model,
+    async complete(messages, opts = {}) {
+      const params = {
+        model: config.model,
+        temperature: config.temperature,
+        ...(opts.json ? { response_format: { type: "json_object" as const } } : {}),
+        messages
+      };
+      if (!opts.onDelta) {
+        const res = await client.chat.completions.create(params, { signal: opts.signal });
+        return res.choices[0]?.message?.content ?? "";
+      }
+
+      const stream = await client.chat.completions.create({ ...params, stream: true }, { signal: opts.signal });
+      let text = "";
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content ?? "";
+        if (!delta) continue;
+        text += delta;
+        opts.onDelta(delta);
+      }
+      return text;
+    }
+  };
+}
+
+/* ---------- Anthropic Messages API ---------- */
+function anthropicProvider(config: LLMConfig): LLMProvider {
+  const base = (config.baseURL ?? "https://api.anthropic.com").replace(/\/+$/, "");
+  return {
+    name: "anthropic",
+    model: config.model,
+    async complete(messages, opts = {}) {
+      const system = messages.filter(m => m.role === "system").map(m => m.content).join("\n\n");
+      const turns = messages.filter(m => m.role !== "system");
+      // no JSON mode here: prefill the opening brace and put it back on the reply
+      if (opts.json) turns.push({ role: "assistant", content: "{" });
+
+      const res = await fetch(`${base}/v1/messages`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": config.apiKey ?? "",
+          "anthropic-version": "2023-06-01"
+        },
+        body: JSON.stringify({
+          model: config.model,
+          max_tokens: 4096,
+          temperature: config.temperature,
+          system: system || undefined,
+          messages: turns,
+          stream: !!opts.onDelta
+        }),
+        signal: opts.signal
+      });
+      if (!res.ok) throw new Error(`Anthropic request failed (${res.status}): ${await res.text()}`);
+
+      const prefix = opts.json ? "{" : "";
+      if (!opts.onDelta) {
+        const data = await res.json();
+        const text = (data.content ?? [])
+          .filter((c: any) => c.type === "text")
+          .map((c: any) => c.text)
+          .join("");
+        return prefix + text;
+      }
+
+      // server-sent events: only text deltas matter here
+      if (prefix) opts.onDelta(prefix);
+      let text = prefix;
+      let buf = "";
+      const reader = res.body!.getReader();
+      const decoder = new TextDecoder();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buf += decoder.decode(value, { stream: true });
+        const lines = buf.split("\n");
+        buf = lines.pop() ?? "";
+        for (const line of lines) {
+          if (!line.startsWith("data:")) continue;
+          const evt = JSON.parse(line.slice(5));
+          if (evt.type === "content_block_delta" && evt.delta?.type === "text_delta") {
+            text += evt.delta.text;
+            opts.onDelta(evt.delta.text);
+          }
+        }
+      }
+      return text;
+    }
+  };
+}
+
+export async function createProvider(config: LLMConfig): Promise<LLMProvider> {
+  return config.provider === "anthropic" ? anthropicProvider(config) : openAIProvider(config);
+}
@@ -0,0 +1,138 @@
+// lib/merge.ts
+// Reduce step for chunked extraction: folds per-chunk extractions into one,
+// dropping repeated decisions/questions and merging actions that share an
+// owner and task.
+import type { Extraction, ExtractedAction, ExtractedPreviousAction } from "@/lib/extraction";
+import { normalizeDue, today } from "@/lib/dates";
+
+type Length = "short" | "medium" | "long";
+
+const SUMMARY_LINES: Record<Length, number> = { short: 1, medium: 4, long: 6 };
+
+/* ---------- similarity ---------- */
+const STOP = new Set(["the", "a", "an", "to", "of", "for", "and", "on", "in", "with", "by", "we", "our"]);
+
+export function taskWords(s: string): string[] {
+  return s.toLowerCase().replace(/[^a-z0-9\s]+/g, " ").split(/\s+/).filter(w => w && !STOP.has(w));
+}
+
+/**
+ * Same item if the content words mostly coincide (Jaccard ≥ 0.7): "Send the
+ * deck to the client" and "send deck to client" match, "Fix login" and "Fix
+ * login page timeout on mobile" do not.
+ */
+export function similar(a: string, b: string): boolean {
+  const x = new Set(taskWords(a));
+  const y = new Set(taskWords(b));
+  if (!x.size || !y.size) return x.size === y.size;
+  const shared = [...x].filter(w => y.has(w)).length;
+  return shared / (x.size + y.size - shared) >= 0.7;
+}
+
+function ownerKey(owner: string): string {
+  return owner
+    .split(/\s*,\s*/)
+    .map(n => n.trim().toLowerCase())
+    .filter(n => n && n !== "tbd")
+    .sort()
+    .join(",");
+}
+
+/* ---------- lists ---------- */
+// keeps first-seen order; a longer rewording replaces the shorter one in place
+function mergeItems(lists: string[][]): string[] {
+  const out: string[] = [];
+  for (const item of lists.flat()) {
+    const i = out.findIndex(o => similar(o, item));
+    if (i < 0) out.push(item);
+    else if (item.length > out[i].length) out[i] = item;
+  }
+  return out;
+}
+
+// the later of two deadlines; when either phrase has no date, the later part's wording
+function laterDue(earlier: ExtractedAction, later: ExtractedAction, base: Date): ExtractedAction {
+  if (!later.due) return earlier;
+  if (!earlier.due) return later;
+  const a = normalizeDue(earlier.due, base, base).dueDate;
+  const b = normalizeDue(later.due, base, base).dueDate;
+  return a && b && a > b ? earlier : later;
+}
+
+function mergeActions(lists: ExtractedAction[][], base: Date): ExtractedAction[] {
+  const out: ExtractedAction[] = [];
+  for (const a of lists.flat()) {
+    const key = ownerKey(a.owner);
+    // an unowned duplicate folds into the owned one (and vice versa)
+    const i = out.findIndex(o => {
+      const k = ownerKey(o.owner);
+      return (k === key || !k || !key) && similar(o.task, a.task);
+    });
+    if (i < 0) {
+      out.push({ ...a });
+      continue;
+    }
+    const o = out[i];
+    const due = laterDue(o, a, base);
+    out[i] = {
+      ...o,
+      owner: ownerKey(o.owner) ? o.owner : a.owner,
+      task: a.task.length > o.task.length ? a.task : o.task,
+      due: due.due,
+      dueDate: due.dueDate,
+      dueFlags: due.dueFlags,
+      rationale: o.rationale || a.rationale
+    };
+  }
+  return out;
+}
+
+// every part sees the same carried actions; the most advanced status wins
+const STATUS_RANK = { open: 0, "in-progress": 1, done: 2 } as const;
+
+function mergePrevious(lists: ExtractedPreviousAction[][]): ExtractedPreviousAction[] {
+  const out: ExtractedPreviousAction[] = [];
+  for (const p of lists.flat()) {
+    const i = out.findIndex(o => similar(o.task, p.task));
+    if (i < 0) out.push({ ...p });
+    else if (STATUS_RANK[p.status] > STATUS_RANK[out[i].status] || (!out[i].note && p.note)) out[i] = { ...p };
+  }
+  return out;
+}
+
+/* ---------- summary ---------- */
+function sentences(s: string): string[] {
+  return s
+    .split(/\n+|(?<=[.!?])\s+(?=[A-Z"“])/)
+    .map(x => x.trim())
+    .filter(Boolean);
+}
+
+// one line from every part first, so late topics are not crowded out
+function mergeSummary(parts: string[], max: number): string {
+  const per = parts.map(sentences);
+  const picked: string[] = [];
+  for (let round = 0; picked.length < max && per.some(p => p.length > round); round++) {
+    for (const p of per) {
+      const s = p[round];
+      if (s && picked.length < max && !picked.some(x => similar(x, s))) picked.push(s);
+    }
+  }
+  return picked.join(" ");
+}
+
+/* =========================
+   Merge
+   ========================= */
+/** `base` is the meeting date that relative deadlines ("Friday") are read against. */
+export function mergeExtractions(parts: Extraction[], length: Length = "medium", base: Date = today()): Extraction {
+  if (parts.length === 1) return parts[0];
+  return {
+    summary: mergeSummary(parts.map(p => p.summary), SUMMARY_LINES[length]),
+    context: length === "long" ? parts.map(p => p.context).filter(Boolean).join("\n\n") : "",
+    decisions: mergeItems(parts.map(p => p.decisions)),
+    actions: mergeActions(parts.map(p => p.actions), base),
+    questions: mergeItems(parts.map(p => p.questions)),
+    previous: mergePrevious(parts.map(p => p.previous))
+  };
+}
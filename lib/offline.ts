@@ -0,0 +1,300 @@
+// lib/offline.ts
+// Rule-based extractor for the no-provider path. Reads bullet structure and
+// section headings, detects owners and due phrases, and puts each line in at
+// most one section.
+import type { Extraction, ExtractedAction } from "@/lib/extraction";
+import { findDuePhrase, parseMeetingDate, today } from "@/lib/dates";
+import { splitSpeaker } from "@/lib/ingest";
+
+export type OfflineInput = {
+  notes: string;
+  date?: string;
+  participants?: string;
+  length: "short" | "medium" | "long";
+};
+
+type Kind = "decision" | "action" | "question" | "note";
+
+type Line = {
+  text: string; // bullet marker stripped
+  depth: number; // indentation level
+  checkbox: boolean; // "[ ]" / "[x]" task syntax
+};
+
+const MAX_ITEMS = 50;
+
+/* ---------- headings ---------- */
+const HEADINGS: [RegExp, Kind][] = [
+  [/^(decisions?|decided|agreed|agreements?|outcomes?|resolutions?)$/i, "decision"],
+  [/^(action items?|actions?|next steps?|to-?dos?|tasks?|follow[- ]?ups?|ais?)$/i, "action"],
+  [/^(open questions?|questions?|open issues?|issues|risks?|blockers?|parking lot|tbd)$/i, "question"],
+  [/^(notes?|summary|discussion|context|background|updates?|agenda)$/i, "note"]
+];
+
+function headingKind(raw: string): Kind | null {
+  const bulleted = /^(?:[-*•–]|\d+[.)])\s+/.test(raw);
+  const m =
+    raw.match(/^#{1,6}\s*(.+?)\s*:?\s*$/) ??
+    raw.match(/^(.+?)\s*:\s*$/) ??
+    (bulleted ? null : raw.match(/^\**([A-Za-z -]{2,20}?)\**$/));
+  if (!m) return null;
+  const label = m[1].replace(/[*_]/g, "").trim();
+  for (const [re, kind] of HEADINGS) if (re.test(label)) return kind;
+  // any other markdown heading resets to plain notes
+  return raw.startsWith("#") ? "note" : null;
+}
+
+/* ---------- lines ---------- */
+function parseLines(notes: string): (Line & { heading: Kind | null })[] {
+  return notes
+    .split(/\r?\n/)
+    .filter(l => l.trim())
+    .map(raw => {
+      const indent = raw.match(/^\s*/)![0].replace(/\t/g, "  ").length;
+      const trimmed = raw.trim();
+      const heading = headingKind(trimmed);
+      const checkbox = /^(?:[-*•]\s*)?\[[ xX]?\]/.test(trimmed);
+      const text = trimmed
+        .replace(/^(?:[-*•–]|\d+[.)])\s+/, "")
+        .replace(/^\[[ xX]?\]\s*/, "")
+        .trim();
+      return { text, depth: Math.floor(indent / 2), checkbox, heading };
+    })
+    .filter(l => l.text);
+}
+
+/* ---------- participants & owners ---------- */
+function participantList(raw?: string): string[] {
+  return (raw ?? "")
+    .split(/[,;\n]+|\s+and\s+/)
+    .map(s => s.replace(/<[^>]*>/g, "").replace(/\([^)]*\)/g, "").trim())
+    .filter(Boolean);
+}
+
+function findParticipant(name: string, participants: string[]): string | null {
+  const n = name.replace(/^@/, "").trim().toLowerCase();
+  if (!n) return null;
+  for (const p of participants) {
+    const lower = p.toLowerCase();
+    const first = lower.split(/\s+/)[0];
+    const handle = lower.replace(/[^a-z0-9]/g, "");
+    if (lower === n || first === n || handle === n.replace(/[^a-z0-9]/g, "")) return p;
+  }
+  return null;
+}
+
+/** Maps a detected name ("anna", "@bob", "Carol") onto the participants list when possible. */
+function matchParticipant(name: string, participants: string[]): string {
+  const known = findParticipant(name, participants);
+  if (known) return known;
+  const clean = name.replace(/^@/, "").trim();
+  return clean.charAt(0).toUpperCase() + clean.slice(1);
+}
+
+const NAME = "[A-Z][a-zA-Z'’-]+(?:\\s+[A-Z][a-zA-Z'’-]+)?";
+const NAMES = `${NAME}(?:\\s*(?:,|&|and|\\/)\\s*${NAME})*`;
+const HANDLE = "@[\\w.-]+";
+
+// capitalised words that start sentences but never own a task
+const NOT_NAMES = new Set([
+  "we", "i", "you", "they", "he", "she", "it", "this", "that", "there", "these", "those",
+  "everyone", "everybody", "someone", "somebody", "nobody", "all", "team", "need", "needs",
+  "want", "wants", "plan", "plans", "going", "have", "has", "still", "also", "then", "next", "due",
+  "who", "what", "when", "where", "why", "how", "which", "agreed", "decided"
+]);
+
+// "AI: Carol — send deck", "Action: Carol to send", "TODO(@bob): fix", "Owner: Dana"
+const MARKER_RE = new RegExp(
+  `^(?:AI|A\\.I\\.|[Aa]ction(?: [Ii]tems?)?|TODO|[Tt]odo|[Oo]wner)\\s*(?:\\(\\s*(${HANDLE}|${NAME})\\s*\\))?\\s*[:\\-–—]\\s*` +
+  `(?:(${HANDLE}|${NAMES})\\s*(?:[:\\-–—]|\\bto\\b|\\bwill\\b)\\s*)?`
+);
+// "Anna to draft…", "Anna and Raj will…", "Bob needs to…"
+const VERB_RE = new RegExp(`^(${HANDLE}|${NAMES})\\s+(?:to|will|should|needs? to|is going to|can|must|owns?)\\b\\s*`);
+// "Dana: update…" (only for known participants or checkbox tasks)
+const LABEL_RE = new RegExp(`^(${HANDLE}|${NAMES})\\s*[:\\-–—]\\s+`);
+
+type OwnerHit = { owner: string; rest: string };
+
+function splitNames(raw: string): string[] {
+  return raw.split(/\s*(?:,|&|\band\b|\/)\s*/).filter(Boolean);
+}
+
+function detectOwner(text: string, participants: string[], checkbox: boolean): OwnerHit | null {
+  const marker = text.match(MARKER_RE);
+  if (marker) {
+    const rest = text.slice(marker[0].length);
+    const who = marker[1] ?? marker[2];
+    if (who) return { owner: who, rest };
+    // explicit action marker without a name: look for one in the remainder
+    return detectOwner(rest, participants, true) ?? { owner: "", rest };
+  }
+
+  const verb = text.match(VERB_RE);
+  if (verb && !NOT_NAMES.has(splitNames(verb[1])[0].replace(/^@/, "").toLowerCase())) {
+    return { owner: verb[1], rest: text.slice(verb[0].length) };
+  }
+
+  const label = text.match(LABEL_RE);
+  if (label && (checkbox || splitNames(label[1]).every(n => findParticipant(n, participants)))) {
+    return { owner: label[1], rest: text.slice(label[0].length) };
+  }
+
+  const mention = text.match(/(?:^|\s)@([a-zA-Z][\w.-]*)/);
+  if (mention) return { owner: mention[1], rest: text.replace(mention[0], " ").replace(/\s{2,}/g, " ").trim() };
+
+  const assigned = text.match(/\((?:owner|assigned(?: to)?)\s*[:\-]?\s*(@?[\w .-]+)\)/i);
+  if (assigned) return { owner: assigned[1], rest: text.replace(assigned[0], "").trim() };
+  return null;
+}
+
+/* ---------- transcripts ---------- */
+// "Anna: …" on most lines; the speaker owns their own commitments
+function isTranscript(lines: Line[]): boolean {
+  const labelled = lines.filter(l => splitSpeaker(l.text)).length;
+  return lines.length >= 3 && labelled / lines.length >= 0.6;
+}
+
+// "I'll send…", "Sure, I can take the legal review", "Let me check…"
+const COMMIT_RE =
+  /^(?:(?:ok(?:ay)?|sure|yes|yeah|so|and)[,\s]+)?(?:I'll|I’ll|I will|I can|I'm going to|I’m going to|I am going to|let me)\s+(?:take\s+(?:care of\s+)?|handle\s+|own\s+)?/i;
+
+function commitment(text: string, speaker: string): OwnerHit | null {
+  const m = speaker ? text.match(COMMIT_RE) : null;
+  return m ? { owner: speaker, rest: text.slice(m[0].length) } : null;
+}
+
+function normalizeOwners(raw: string, participants: string[]): string {
+  const names = splitNames(raw).map(n => matchParticipant(n, participants));
+  return names.length ? names.join(", ") : "TBD";
+}
+
+/* ---------- classification ---------- */
+const ACTION_VERBS =
+  /^(send|share|draft|write|prepare|review|update|schedule|book|set up|setup|follow up|check|confirm|create|fix|investigate|reach out|email|call|ping|finalize|finalise|circulate|document|ask|sync|organi[sz]e|deploy|ship|merge|test|build|design|get|find|add|remove|look into)\b/i;
+const DECISION_RE =
+  /\b(decided|decision|agreed|agree that|approved|signed off|go with|going with|we will|we'll|chose|choose to|settled on|concluded|confirmed that|no longer|won't|will not|keep(?:ing)?\b.*\bas is)\b/i;
+const NEED_RE = /^(?:needs?|must|should|have to|follow[- ]up)\b/i;
+const QUESTION_RE =
+  /(\?\s*$|^(q:|question:|open:)|\b(open question|unclear|unknown|tbd|to be determined|not sure|need to (?:decide|confirm|clarify)|blocker|blocked|risk|pending)\b)/i;
+
+function classify(line: Line, section: Kind | null, owner: OwnerHit | null): Kind {
+  if (section === "action" || section === "decision" || section === "question") {
+    // a question under "Next steps" is still a question
+    if (section === "action" && /\?\s*$/.test(line.text)) return "question";
+    return section;
+  }
+  if (/\?\s*$/.test(line.text)) return "question";
+  if (owner || line.checkbox) return "action";
+  if (DECISION_RE.test(line.text)) return "decision";
+  if (QUESTION_RE.test(line.text)) return "question";
+  if (NEED_RE.test(line.text)) return "action";
+  if (ACTION_VERBS.test(line.text) && /\b(by|due|before|until|eow|eod|next)\b/i.test(line.text)) return "action";
+  return "note";
+}
+
+/* ---------- text cleanup ---------- */
+// tasks read as list items and lose a closing full stop; decisions keep theirs
+function tidy(s: string, kind?: "task"): string {
+  let t = s
+    .replace(/^(?:q|question|open|decision|decided|agreed)\s*:\s*/i, "")
+    .replace(/\s*[,;:\-–—]\s*$/, "")
+    .replace(/\s+([.,;:!?])/g, "$1")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+  if (kind === "task") t = t.replace(/(?<!\.)\.$/, "");
+  return t.charAt(0).toUpperCase() + t.slice(1);
+}
+
+function keyOf(s: string) {
+  return s.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+/* =========================
+   Extractor
+   ========================= */
+export function extractOffline(input: OfflineInput): Extraction {
+  const lines = parseLines(input.notes);
+  const transcript = isTranscript(lines);
+  const participants = participantList(input.participants);
+  if (transcript) {
+    for (const l of lines) {
+      const who = splitSpeaker(l.text)?.speaker;
+      if (who && !findParticipant(who, participants)) participants.push(who);
+    }
+  }
+  const base = parseMeetingDate(input.date) ?? today();
+
+  const decisions: string[] = [];
+  const actions: ExtractedAction[] = [];
+  const questions: string[] = [];
+  const notes: string[] = [];
+  const seen = new Set<string>();
+
+  let section: Kind | null = null;
+  let parent: { kind: Kind; depth: number } | null = null;
+
+  for (const raw of lines) {
+    if (raw.heading) {
+      section = raw.heading;
+      parent = null;
+      continue;
+    }
+
+    const turn = transcript ? splitSpeaker(raw.text) : null;
+    const line = turn ? { ...raw, text: turn.text } : raw;
+    const owner = detectOwner(line.text, participants, line.checkbox) ?? commitment(line.text, turn?.speaker ?? "");
+    let kind = classify(line, section, owner);
+
+    // nested bullets without their own signal inherit the parent's section
+    if (parent && line.depth > parent.depth && kind === "note") kind = parent.kind;
+    if (line.depth === 0) parent = { kind, depth: 0 };
+
+    if (kind === "action") {
+      const rest = owner ? owner.rest : line.text;
+      const due = findDuePhrase(rest, base);
+      // "book the room for next Tuesday": the preposition goes with the date
+      const task = tidy(
+        (due ? rest.slice(0, due.index).replace(/\s(?:for|on)\s*$/i, " ") + rest.slice(due.index + due.phrase.length) : rest)
+          .replace(/^(?:needs?\s+(?:to\s+)?|must\s+|should\s+|have to\s+)/i, ""),
+        "task"
+      );
+      const key = keyOf(task);
+      if (!task || seen.has(key)) continue;
+      seen.add(key);
+      actions.push({
+        owner: owner ? normalizeOwners(owner.owner, participants) : "TBD",
+        task,
+        due: due ? due.phrase : "", // resolved later by normalizeExtraction
+        dueDate: "",
+        dueFlags: [],
+        rationale: ""
+      });
+      continue;
+    }
+
+    const text = tidy(line.text);
+    const key = keyOf(text);
+    if (!text || seen.has(key)) continue;
+    seen.add(key);
+    if (kind === "decision") decisions.push(text);
+    else if (kind === "question") questions.push(text);
+    else notes.push(text);
+  }
+
+  // summary from the plain notes; fall back to the first decisions when there are none
+  const summarySource = notes.length ? notes : decisions;
+  const summaryCount = input.length === "short" ? 1 : input.length === "long" ? 5 : 3;
+  const summary = summarySource.slice(0, summaryCount).map(s => s.replace(/[.;]?$/, ".")).join(" ");
+  const context = input.length === "long" && notes.length > summaryCount
+    ? notes.slice(summaryCount, summaryCount + 12).join(" ")
+    : "";
+
+  return {
+    summary,
+    context,
+    decisions: decisions.slice(0, MAX_ITEMS),
+    actions: actions.slice(0, MAX_ITEMS),
+    questions: questions.slice(0, MAX_ITEMS),
+    previous: [] // filled in by reconcilePrevious when a series carries actions over
+  };
+}
@@ -0,0 +1,51 @@
+// lib/output.ts
+// Output formats for headless generation (/api/v1/generate and the CLI).
+import { buildEml, formatAddress } from "@/utils/mime";
+import { sanitizeRecipients } from "@/utils/recipients";
+import type { GenerateResult } from "@/lib/pipeline";
+
+export const OUTPUT_FORMATS = ["json", "text", "html", "eml"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export type Addressing = { to?: string; cc?: string; bcc?: string; from?: string; fromName?: string };
+
+export type Output = { content: string; mime: string; ext: string };
+
+const MIME: Record<OutputFormat, { mime: string; ext: string }> = {
+  json: { mime: "application/json; charset=utf-8", ext: "json" },
+  text: { mime: "text/plain; charset=utf-8", ext: "txt" },
+  html: { mime: "text/html; charset=utf-8", ext: "html" },
+  eml: { mime: "message/rfc822", ext: "eml" }
+};
+
+function htmlDocument(subject: string, html: string): string {
+  const title = subject.replace(/&/g, "&amp;").replace(/</g, "&lt;");
+  return `<!doctype html>\n<html><head><meta charset="utf-8"><title>${title}</title></head><body>\n${html}\n</body></html>\n`;
+}
+
+export function renderOutput(result: GenerateResult, format: OutputFormat, to: Addressing = {}): Output {
+  const { mime, ext } = MIME[format];
+  switch (format) {
+    case "json":
+      return { content: JSON.stringify(result, null, 2), mime, ext };
+    case "text":
+      return { content: `Subject: ${result.subject}\n\n${result.body}`, mime, ext };
+    case "html":
+      return { content: htmlDocument(result.subject, result.html), mime, ext };
+    case "eml":
+      return {
+        content: buildEml({
+          from: to.from ? formatAddress(to.from, to.fromName) : undefined,
+          to: sanitizeRecipients(to.to ?? ""),
+          cc: sanitizeRecipients(to.cc ?? ""),
+          bcc: sanitizeRecipients(to.bcc ?? ""),
+          subject: result.subject,
+          text: result.body,
+          html: result.html
+        }),
+        mime,
+        ext
+      };
+  }
+}
@@ -0,0 +1,199 @@
+// lib/pipeline.ts
+// The notes → email pipeline behind /api/generate, /api/v1/generate and the
+// CLI: validate, extract (model or offline, chunked for long notes, with
+// redaction), normalize, compose. Emits the same progress events either way.
+import { z } from "zod";
+import { emailOptionsSchema, normalizeExtraction, renderEmail, type RenderedEmail } from "@/lib/compose";
+import { parseMeetingDate, today } from "@/lib/dates";
+import { createProvider, llmConfigFromEnv, type ChatMessage, type LLMConfig, type LLMProvider } from "@/lib/llm";
+import {
+  actionSchema,
+  checkExtraction,
+  repairPrompt,
+  createSectionScanner,
+  salvageExtraction,
+  type Extraction,
+  type ValidationReport
+} from "@/lib/extraction";
+import type { Emit } from "@/lib/stream";
+import { extractOffline } from "@/lib/offline";
+import { CHUNK_CHARS, chunkNotes } from "@/lib/ingest";
+import { mergeExtractions } from "@/lib/merge";
+import { reconcilePrevious } from "@/lib/series";
+import { EXTRACTION_SCHEMA, SYSTEM_PROMPT, toneHints, userTemplate } from "@/lib/prompt";
+import { createRedactor, redactionPolicyFromEnv, type RedactionAudit } from "@/lib/redact";
+import type { Action } from "@/utils/format";
+
+/* ---------- validation ---------- */
+export const generateRequestSchema = emailOptionsSchema.extend({
+  notes: z.string().min(10),
+  // open actions from the previous meeting in the series, to be given a status
+  previousActions: z.array(actionSchema).max(100).default([]),
+  // extra confidential terms for this request, on top of REDACT_TERMS
+  redactTerms: z.array(z.string().trim().max(100)).max(200).default([])
+});
+
+// input budget; notes longer than one chunk are extracted part by part and merged
+export const MAX_NOTES_CHARS = Number(process.env.NOTES_MAX_CHARS) || 200_000;
+
+/* =========================
+   Pipeline
+   ========================= */
+export type GenerateInput = z.infer<typeof generateRequestSchema>;
+type Input = GenerateInput;
+
+export type GenerateResult = RenderedEmail & {
+  actions: Action[];
+  extraction: Extraction;
+  validation?: ValidationReport;
+  redaction: RedactionAudit;
+};
+
+export type GenerateOptions = {
+  config: LLMConfig | null; // null: offline extractor
+  llm?: LLMProvider; // overrides the provider built from `config` (scripts, tests)
+  emit?: Emit;
+  signal?: AbortSignal;
+};
+
+/* ---------- LLM: extract -> validate -> (repair) ---------- */
+async function llmExtract(
+  p: Input,
+  llm: LLMProvider,
+  emit: Emit,
+  signal: AbortSignal | undefined,
+  part?: { index: number; total: number }
+) {
+  const toneInstructions = toneHints(p.tone);
+
+  const messages: ChatMessage[] = [
+    { role: "system", content: SYSTEM_PROMPT },
+    { role: "user", content: userTemplate({ ...p, toneInstructions, part }) + "\n\n" + EXTRACTION_SCHEMA }
+  ];
+  // chunked mode streams the merged sections instead of each part's
+  const scan = part ? undefined : createSectionScanner((key, value) => emit({ type: "section", key, value }));
+  const raw = (await llm.complete(messages, { json: true, signal, onDelta: scan })) || "{}";
+
+  // validate; on failure send the issues back once, then keep whatever still validates
+  const validation: ValidationReport = { repaired: false, dropped: [] };
+  let data: Extraction;
+  const first = checkExtraction(raw);
+  if (first.ok) {
+    data = first.data;
+  } else {
+    validation.repaired = true;
+    emit({ type: "stage", stage: "repairing" });
+    const retry = (await llm.complete(
+      [
+        ...messages,
+        { role: "assistant", content: raw },
+        { role: "user", content: repairPrompt(first.issues) }
+      ],
+      { json: true, signal }
+    )) || "{}";
+    const second = checkExtraction(retry);
+    if (second.ok) {
+      data = second.data;
+    } else {
+      const salvaged = salvageExtraction(second.json ?? first.json);
+      data = salvaged.data;
+      validation.dropped = salvaged.dropped;
+    }
+  }
+  return { data, validation };
+}
+
+export async function generateEmail(p: Input, opts: GenerateOptions): Promise<GenerateResult> {
+  const { emit = () => {}, signal } = opts;
+  emit({ type: "stage", stage: "extracting" });
+  const llm = opts.llm ?? (opts.config ? await createProvider(opts.config) : null);
+
+  if (!llm) {
+    // no provider configured: rule-based extractor
+    const offline = extractOffline(p);
+    const data = normalizeExtraction({ ...offline, previous: reconcilePrevious(p.previousActions, [], p.notes) }, p);
+    for (const key of ["summary", "context", "decisions", "actions", "questions", "previous"] as const) {
+      emit({ type: "section", key, value: data[key] });
+    }
+    emit({ type: "stage", stage: "composing" });
+    // nothing left the server
+    const redaction: RedactionAudit = { applied: false, total: 0, counts: {}, items: [] };
+    return { ...renderEmail(p, data), actions: data.actions, extraction: data, redaction };
+  }
+
+  // PII and confidential terms are masked before the model sees them and restored after
+  const policy = redactionPolicyFromEnv();
+  const redactor = createRedactor({ ...policy, terms: [...policy.terms, ...p.redactTerms] });
+  const masked: Input = {
+    ...p,
+    title: p.title && redactor.mask(p.title),
+    participants: p.participants && redactor.mask(p.participants),
+    notes: redactor.mask(p.notes),
+    previousActions: p.previousActions.map(a => ({ ...a, owner: redactor.mask(a.owner), task: redactor.mask(a.task) }))
+  };
+  const restoring: Emit = e => emit(e.type === "section" ? { ...e, value: redactor.restoreDeep(e.value) } : e);
+
+  const chunks = masked.notes.length > CHUNK_CHARS ? chunkNotes(masked.notes, CHUNK_CHARS) : [masked.notes];
+  const extracted = chunks.length > 1
+    ? await chunkedExtract(masked, chunks, llm, restoring, signal)
+    : await llmExtract(masked, llm, restoring, signal);
+  const restored = redactor.restoreDeep(extracted.data);
+  // every carried action gets exactly one status, whatever the model returned
+  const previous = reconcilePrevious(p.previousActions, restored.previous, p.notes);
+  const data = normalizeExtraction({ ...restored, previous }, p);
+  const validation = extracted.validation;
+  emit({ type: "stage", stage: "composing" });
+  return { ...renderEmail(p, data), actions: data.actions, extraction: data, validation, redaction: redactor.audit() };
+}
+
+/* ---------- LLM: map over chunks, reduce into one extraction ---------- */
+async function chunkedExtract(p: Input, chunks: string[], llm: LLMProvider, emit: Emit, signal?: AbortSignal) {
+  const parts: Extraction[] = [];
+  const validation: ValidationReport = { repaired: false, dropped: [] };
+  const base = parseMeetingDate(p.date) ?? today(p.timeZone);
+  for (const [i, notes] of chunks.entries()) {
+    const part = { index: i + 1, total: chunks.length };
+    emit({ type: "stage", stage: "extracting", part: part.index, parts: part.total });
+    const r = await llmExtract({ ...p, notes }, llm, emit, signal, part);
+    parts.push(r.data);
+    validation.repaired ||= r.validation.repaired;
+    validation.dropped.push(...r.validation.dropped.map(d => `part ${part.index}: ${d}`));
+
+    const merged = mergeExtractions(parts, p.length, base);
+    for (const key of ["summary", "context", "decisions", "actions", "questions", "previous"] as const) {
+      emit({ type: "section", key, value: merged[key] });
+    }
+  }
+  return { data: mergeExtractions(parts, p.length, base), validation };
+}
+
+/* =========================
+   Request validation
+   ========================= */
+export type Prepared =
+  | { ok: true; p: GenerateInput; config: LLMConfig | null }
+  | { ok: false; error: string; status: number };
+
+/** Validates a request body and reads the provider config; errors carry the HTTP status to answer with. */
+export function prepareGenerate(json: unknown, env = process.env): Prepared {
+  const parsed = generateRequestSchema.safeParse(json);
+  if (!parsed.success) return { ok: false, error: "Invalid input", status: 400 };
+  if (parsed.data.notes.length > MAX_NOTES_CHARS) {
+    return {
+      ok: false,
+      error: `Notes are too long (${parsed.data.notes.length.toLocaleString("en")} characters; the limit is ${MAX_NOTES_CHARS.toLocaleString("en")}). Trim the transcript or split the meeting.`,
+      status: 413
+    };
+  }
+  try {
+    return { ok: true, p: parsed.data, config: llmConfigFromEnv(env) };
+  } catch (e) {
+    console.error(e);
+    return { ok: false, error: "LLM provider is misconfigured.", status: 500 };
+  }
+}
+
+/** Model calls the notes will take (one per chunk), for spend estimates. */
+export function modelCalls(notes: string): number {
+  return Math.max(1, Math.ceil(notes.length / CHUNK_CHARS));
+}
@@ -1,9 +1,54 @@
-export const SYSTEM_PROMPT = `You are an assistant that turns raw meeting notes into ready-to-send emails.
-Follow the requested tone and audience. Keep it concise and action-oriented.
-Always extract: decisions, action items (owner, due date), and open questions.
-Return well-formatted plain text suitable for email clients.`;
+// lib/prompt.ts
+// The extraction prompts, in one place: the system prompt, the per-request
+// user message and the JSON shape the model must return. lib/pipeline.ts
+// sends them; the tests pin them through the recorded fixtures.
+import { LANGUAGE_NAMES, type Language } from "@/lib/i18n";
+import type { Action } from "@/utils/format";
 
-export const USER_TEMPLATE = (p: {
+/* ---------- tone guidance for extraction step (not the final email) ---------- */
+export function toneHints(tone: string) {
+  switch (tone) {
+    case "casual":
+      return `
+Use a friendly, conversational tone in the *final email*.
+Use contractions (we'll, it's, you're, let's).
+Keep sentences short and avoid buzzwords.
+Open with a light intro (e.g., "Hey folks — quick recap …").
+`.trim();
+    case "friendly":
+      return `Use warm, approachable language without being overly casual.`;
+    case "persuasive":
+      return `Use confident, motivating language to encourage action and ownership.`;
+    case "formal":
+      return `Use professional, business-like language with complete sentences.`;
+    case "concise":
+      return `Be brief and to the point; include only essential information.`;
+    default:
+      return ``;
+  }
+}
+
+/* ---------- SYSTEM: extraction-only ---------- */
+export const SYSTEM_PROMPT = `You turn messy meeting notes into a structured summary.
+
+ONLY EXTRACT structured fields; DO NOT write the final email body.
+We will format the final email on the server.
+
+Return JSON with:
+- summary: string (2–5 lines max, plain text, no markdown)
+- decisions: string[]
+- context: string (background paragraphs; only when TARGET LENGTH is long, else "")
+- actions: { owner: string, task: string, due: string, rationale: string }[]
+- questions: string[]
+- previous: { owner: string, task: string, due: string, status: "done" | "in-progress" | "open", note: string }[] (only when PREVIOUS ACTION ITEMS are given, else [])
+
+Notes can be noisy; extract what’s reliable.
+Bracketed placeholders such as [EMAIL_1], [PHONE_2] or [TERM_1] stand for masked details; copy them exactly where they belong and never guess what they hide.
+Write every extracted string in the OUTPUT LANGUAGE, even when the notes mix languages; keep people's names, product names and "due" phrases as written.
+Transcripts arrive as "Speaker: text" lines; a speaker's own commitments ("I'll send…") are actions owned by that speaker.`;
+
+/* ---------- user template for extraction ---------- */
+export function userTemplate(p: {
   title?: string;
   date?: string;
   participants?: string;
@@ -11,27 +56,53 @@ export const USER_TEMPLATE = (p: {
   tone: string;
   type: string;
   length: string;
+  language: Language;
   notes: string;
-}) => `MEETING TITLE: ${p.title ?? ""}
+  toneInstructions: string;
+  previousActions?: Action[];
+  part?: { index: number; total: number };
+}) {
+  const previous = p.previousActions?.length
+    ? `
+PREVIOUS ACTION ITEMS (from the last meeting in this series):
+${p.previousActions.map((a, i) => `${i + 1}. ${a.owner || "TBD"} — ${a.task}${a.due ? ` (due ${a.due})` : ""}`).join("\n")}
+`
+    : "";
+  return `
+MEETING TITLE: ${p.title ?? ""}
 DATE: ${p.date ?? ""}
 PARTICIPANTS: ${p.participants ?? ""}
 AUDIENCE: ${p.audience}
-TONE: ${p.tone}
+TONE (for final email): ${p.tone}
 EMAIL TYPE: ${p.type}
 TARGET LENGTH: ${p.length}
+OUTPUT LANGUAGE: ${LANGUAGE_NAMES[p.language]} (${p.language})
+
+TONE GUIDANCE (for awareness only):
+${p.toneInstructions || "(none)"}
 
-NOTES:
+${previous}
+${p.part ? `NOTES (part ${p.part.index} of ${p.part.total} of a longer meeting; extract only what this part contains):` : "NOTES:"}
 ${p.notes}
 
 CONSTRAINTS:
-- Subject line ≤ 80 chars.
-- Start with 2–3 line executive summary.
-- Separate sections: Decisions, Action Items (Owner • Task • Due), Open Questions.
-- End with a clear call to confirm or correct.`;
+- You are EXTRACTING ONLY, not writing the final email.
+- Write "summary", "context", "decisions", "questions", each "task", "rationale" and "note" in ${LANGUAGE_NAMES[p.language]}, translating anything written in another language.
+- Keep "summary" as short plain text lines (no bullets needed).
+- "actions" should capture owner, task, and due date when available. Copy "due" as written in the notes (e.g. "by Fri", "end of sprint"); dates are resolved on the server.
+- TARGET LENGTH short: keep "summary" to one line. TARGET LENGTH long: fill "context" with 1–2 short paragraphs of background and give each action a one-line "rationale" (why it matters); otherwise leave both empty.
+- If a field is empty, return an empty array or empty string (do not invent).
+- For each PREVIOUS ACTION ITEM (if any), add an entry to "previous" with owner, task and due copied unchanged, "status" from what these notes say ("done", "in-progress", or "open" when not mentioned) and a short "note" quoting the evidence. Do not repeat them in "actions" unless new work was assigned.
+`.trim();
+}
 
-export const EXTRACTION_SCHEMA = `Return a valid JSON object with keys:
-- summary: string
-- decisions: string[]
-- actions: {owner:string, task:string, due:string}[]
-- questions: string[]
-Do not include any other keys.`;
+export const EXTRACTION_SCHEMA = `
+Return a valid JSON object with keys EXACTLY:
+{
+  "summary": string,
+  "context": string,
+  "decisions": string[],
+  "actions": [{"owner": string, "task": string, "due": string, "rationale": string}],
+  "questions": string[],
+  "previous": [{"owner": string, "task": string, "due": string, "status": "done" | "in-progress" | "open", "note": string}]
+}`.trim();
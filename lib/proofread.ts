@@ -0,0 +1,214 @@
+// lib/proofread.ts
+// Proofreading for the composed email, run on the server: either a
+// LanguageTool instance (PROOFREAD_LANGUAGETOOL_URL, e.g. a local container)
+// or a small built-in rule set. Both return individual suggestions that the
+// UI accepts or rejects one by one.
+import type { Language } from "@/lib/i18n";
+
+export type Suggestion = {
+  id: string;
+  offset: number; // UTF-16 index into the checked text
+  length: number;
+  original: string;
+  message: string;
+  replacements: string[]; // best first; may be empty (advice only)
+  rule: string;
+};
+
+export type ProofreadConfig = { engine: "languagetool"; url: string; apiKey?: string; username?: string } | { engine: "rules" };
+
+export function proofreadConfigFromEnv(env = process.env): ProofreadConfig {
+  const url = env.PROOFREAD_LANGUAGETOOL_URL?.trim();
+  if (!url) return { engine: "rules" };
+  return {
+    engine: "languagetool",
+    url: url.replace(/\/+$/, ""),
+    apiKey: env.PROOFREAD_LANGUAGETOOL_API_KEY || undefined, // LanguageTool Premium only
+    username: env.PROOFREAD_LANGUAGETOOL_USERNAME || undefined
+  };
+}
+
+/* ---------- LanguageTool ---------- */
+type LTMatch = {
+  message: string;
+  shortMessage?: string;
+  offset: number;
+  length: number;
+  replacements?: { value: string }[];
+  rule?: { id: string };
+};
+
+export async function checkWithLanguageTool(
+  config: { url: string; apiKey?: string; username?: string },
+  text: string,
+  language: string,
+  signal?: AbortSignal
+): Promise<Suggestion[]> {
+  const form = new URLSearchParams({ text, language });
+  if (config.apiKey && config.username) {
+    form.set("apiKey", config.apiKey);
+    form.set("username", config.username);
+  }
+  const res = await fetch(`${config.url}/v2/check`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+    body: form,
+    signal
+  });
+  if (!res.ok) throw new Error(`LanguageTool responded ${res.status}`);
+  const data = (await res.json()) as { matches?: LTMatch[] };
+  return (data.matches ?? []).map((m, i) => ({
+    id: `lt-${i}`,
+    offset: m.offset,
+    length: m.length,
+    original: text.slice(m.offset, m.offset + m.length),
+    message: m.message || m.shortMessage || "Possible problem",
+    replacements: (m.replacements ?? []).slice(0, 5).map(r => r.value),
+    rule: m.rule?.id ?? "LANGUAGETOOL"
+  }));
+}
+
+/* ---------- built-in rules ---------- */
+type Rule = {
+  id: string;
+  re: RegExp; // global
+  message: string;
+  fix: (m: RegExpExecArray) => string[];
+  languages?: Language[]; // all when omitted
+};
+
+// common English misspellings; matched case-insensitively, case kept on the fix
+const TYPOS: Record<string, string> = {
+  teh: "the",
+  recieve: "receive",
+  recieved: "received",
+  seperate: "separate",
+  occured: "occurred",
+  definately: "definitely",
+  untill: "until",
+  accomodate: "accommodate",
+  wich: "which",
+  alot: "a lot",
+  tommorow: "tomorrow",
+  tomorow: "tomorrow",
+  calender: "calendar",
+  enviroment: "environment",
+  goverment: "government",
+  neccessary: "necessary",
+  occassion: "occasion",
+  publically: "publicly",
+  reccomend: "recommend",
+  responsability: "responsibility",
+  succesful: "successful",
+  thier: "their",
+  wierd: "weird"
+};
+
+function keepCase(word: string, fix: string): string {
+  return /^[A-Z]/.test(word) ? fix[0].toUpperCase() + fix.slice(1) : fix;
+}
+
+const RULES: Rule[] = [
+  {
+    id: "REPEATED_WORD",
+    re: /\b(\p{L}+)(\s+)\1\b/giu,
+    message: "Repeated word.",
+    fix: m => [m[1]]
+  },
+  {
+    id: "DOUBLE_SPACE",
+    re: /(?<=\S) {2,}(?=\S)/g,
+    message: "More than one space between words.",
+    fix: () => [" "]
+  },
+  {
+    id: "SPACE_BEFORE_PUNCTUATION",
+    re: /(?<=\p{L}) +(?=[,;!?]|\.(?:\s|$))/gu,
+    message: "No space before punctuation.",
+    fix: () => [""],
+    languages: ["en", "de", "es", "nl"] // French puts a space before ; ! ?
+  },
+  {
+    id: "MISSING_SPACE_AFTER_PUNCTUATION",
+    re: /(?<=\p{Ll})[,;](?=\p{L})/gu,
+    message: "Add a space after the punctuation mark.",
+    fix: m => [`${m[0]} `]
+  },
+  {
+    id: "REPEATED_PUNCTUATION",
+    re: /([,;!?])\1+/g,
+    message: "Repeated punctuation.",
+    fix: m => [m[1]]
+  },
+  {
+    id: "EN_A_VS_AN",
+    // by spelling, so only the safe cases: not "a one-off", "a European",
+    // "a user" or "a unit", but "an update", "an umbrella", "an unclear"
+    re: /\b([Aa]) (?=(?:(?!one\b|once\b|eu|ewe\b)[aeio]\w|u[nmp][b-df-hj-np-tv-z]|hour|honest))/g,
+    message: "Use “an” before a vowel sound.",
+    fix: m => [`${m[1]}n `],
+    languages: ["en"]
+  },
+  {
+    id: "EN_COULD_OF",
+    re: /\b(could|should|would|must|might) of\b/gi,
+    message: "Did you mean “have”?",
+    fix: m => [`${m[1]} have`],
+    languages: ["en"]
+  },
+  {
+    id: "EN_TYPO",
+    re: new RegExp(`\\b(${Object.keys(TYPOS).join("|")})\\b`, "gi"),
+    message: "Possible spelling mistake.",
+    fix: m => [keepCase(m[1], TYPOS[m[1].toLowerCase()])],
+    languages: ["en"]
+  }
+];
+
+export function checkWithRules(text: string, language: Language = "en"): Suggestion[] {
+  const out: Suggestion[] = [];
+  for (const rule of RULES) {
+    if (rule.languages && !rule.languages.includes(language)) continue;
+    rule.re.lastIndex = 0;
+    for (let m = rule.re.exec(text); m; m = rule.re.exec(text)) {
+      out.push({
+        id: `${rule.id}-${m.index}`,
+        offset: m.index,
+        length: m[0].length,
+        original: m[0],
+        message: rule.message,
+        replacements: rule.fix(m),
+        rule: rule.id
+      });
+      if (!m[0].length) rule.re.lastIndex++;
+    }
+  }
+  // in reading order; where rules overlap the first one wins
+  out.sort((a, b) => a.offset - b.offset);
+  return out.filter((s, i) => i === 0 || s.offset >= out[i - 1].offset + out[i - 1].length);
+}
+
+/* =========================
+   Applying suggestions (client side)
+   ========================= */
+/** Applies one suggestion and shifts the rest; suggestions overlapping the edit are dropped. */
+export function acceptSuggestion(
+  text: string,
+  suggestions: Suggestion[],
+  id: string,
+  replacement: string
+): { text: string; suggestions: Suggestion[] } {
+  const s = suggestions.find(x => x.id === id);
+  // the text was edited since the check: leave it alone
+  if (!s || text.slice(s.offset, s.offset + s.length) !== s.original) {
+    return { text, suggestions: suggestions.filter(x => x.id !== id) };
+  }
+  const delta = replacement.length - s.length;
+  const end = s.offset + s.length;
+  return {
+    text: text.slice(0, s.offset) + replacement + text.slice(end),
+    suggestions: suggestions
+      .filter(x => x.id !== id && (x.offset + x.length <= s.offset || x.offset >= end))
+      .map(x => (x.offset >= end ? { ...x, offset: x.offset + delta } : x))
+  };
+}
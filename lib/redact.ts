@@ -0,0 +1,158 @@
+// lib/redact.ts
+// Masks PII and confidential terms before anything is sent to the model, and
+// puts the originals back into what comes out. The same value always gets the
+// same placeholder ("[EMAIL_1]") so the model can still tell items apart.
+
+export type RedactionKind = "email" | "phone" | "iban" | "card" | "account" | "term";
+
+export type RedactionPolicy = {
+  detectors: boolean; // built-in PII detectors
+  terms: string[]; // deny-list: project names, codenames, client names…
+};
+
+export type RedactionItem = { placeholder: string; kind: RedactionKind; value: string; count: number };
+
+export type RedactionAudit = {
+  applied: boolean;
+  total: number; // occurrences masked
+  counts: Partial<Record<RedactionKind, number>>;
+  items: RedactionItem[];
+};
+
+// REDACT_PII=off disables the detectors; REDACT_TERMS is a comma- or newline-separated deny-list
+export function redactionPolicyFromEnv(env = process.env): RedactionPolicy {
+  return {
+    detectors: !/^(0|off|false|no)$/i.test(env.REDACT_PII?.trim() ?? ""),
+    terms: splitTerms(env.REDACT_TERMS ?? "")
+  };
+}
+
+export function splitTerms(raw: string): string[] {
+  return raw.split(/[,\n]/).map(t => t.trim()).filter(t => t.length >= 2);
+}
+
+/* ---------- detectors ---------- */
+const LABEL: Record<RedactionKind, string> = {
+  email: "EMAIL",
+  phone: "PHONE",
+  iban: "IBAN",
+  card: "CARD",
+  account: "ACCOUNT",
+  term: "TERM"
+};
+
+const EMAIL_RE = /[\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}/gi;
+const IBAN_RE = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/g;
+const CARD_RE = /(?<!\d)(?:\d[ -]?){12,18}\d(?!\d)/g;
+// the number after "account", "acct", "a/c", "account no." etc.
+const ACCOUNT_RE = /(\b(?:account|acct|a\/c|konto|compte|cuenta|rekening)(?:\s*(?:no\.?|number|nr\.?|#))?[:\s#]*)(\d[\d -]{4,22}\d)/gi;
+// candidates only: isPhone decides from the shape and the words before it
+const PHONE_RE = /(?<![\w+-])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,5}\)[\s.-]?)?\d{2,5}(?:[\s.-]?\d{2,5}){1,4}(?![\w-])/g;
+const DATE_LIKE = /^(?:\d{4}-\d{1,2}-\d{1,2}|\d{1,2}[./-]\d{1,2}[./-]\d{2,4})$/;
+const TIME_RANGE = /^\d{1,2}[.:]\d{2}\s*[-–]\s*\d{1,2}[.:]\d{2}$/;
+const THOUSANDS = /^\d{1,3}(?:[ .]\d{3})+$/;
+const PHONE_CUE = /\b(?:tel|phone|ph|call|mobile|cell|fax|sms|whatsapp)\b[^\d\n]{0,16}$/i;
+
+function digits(s: string): string {
+  return s.replace(/\D/g, "");
+}
+
+function luhn(num: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < num.length; i++) {
+    let d = +num[num.length - 1 - i];
+    if (i % 2) d = d * 2 > 9 ? d * 2 - 9 : d * 2;
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+// "+44 20 7946 0958", "(020) 7946 0958", "call 7946 0958", "020 7946 0958";
+// not "10.30-11.45", "12 500 000" or the digits of "PROJ-1234567"
+function isPhone(m: string, before: string): boolean {
+  const n = digits(m).length;
+  if (n < 7 || n > 15 || DATE_LIKE.test(m) || TIME_RANGE.test(m)) return false;
+  if (/^[+(]/.test(m) || PHONE_CUE.test(before)) return true;
+  return m.split(/[\s.-]+/).length >= 3 && !THOUSANDS.test(m);
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/* =========================
+   Redactor
+   ========================= */
+export type Redactor = {
+  mask: (text: string) => string;
+  restore: (text: string) => string;
+  /** Restores every string inside arrays/objects (extractions, stream events). */
+  restoreDeep: <T>(value: T) => T;
+  audit: () => RedactionAudit;
+};
+
+export function createRedactor(policy: RedactionPolicy): Redactor {
+  const byKey = new Map<string, RedactionItem>(); // kind + normalized value
+  const byPlaceholder = new Map<string, RedactionItem>();
+  const next: Partial<Record<RedactionKind, number>> = {};
+
+  function placeholder(kind: RedactionKind, value: string, key: string): string {
+    const k = `${kind}:${key}`;
+    let item = byKey.get(k);
+    if (!item) {
+      next[kind] = (next[kind] ?? 0) + 1;
+      item = { placeholder: `[${LABEL[kind]}_${next[kind]}]`, kind, value, count: 0 };
+      byKey.set(k, item);
+      byPlaceholder.set(item.placeholder, item);
+    }
+    item.count++;
+    return item.placeholder;
+  }
+
+  // longest first so "Project Falcon X" wins over "Project Falcon"
+  const terms = [...new Set(policy.terms.map(t => t.trim()).filter(Boolean))].sort((a, b) => b.length - a.length);
+  const termRe = terms.length
+    ? new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join("|")})(?![\\p{L}\\p{N}])`, "giu")
+    : null;
+
+  function mask(text: string): string {
+    let out = text;
+    // emails first, so a term inside an address does not split it
+    if (policy.detectors) out = out.replace(EMAIL_RE, m => placeholder("email", m, m.toLowerCase()));
+    if (termRe) out = out.replace(termRe, m => placeholder("term", m, m.toLowerCase()));
+    if (!policy.detectors) return out;
+    out = out.replace(IBAN_RE, m => placeholder("iban", m, m.replace(/\s/g, "")));
+    out = out.replace(ACCOUNT_RE, (_m, label: string, num: string) => label + placeholder("account", num, digits(num)));
+    out = out.replace(CARD_RE, m => (luhn(digits(m)) ? placeholder("card", m, digits(m)) : m));
+    out = out.replace(PHONE_RE, (m: string, at: number, all: string) =>
+      isPhone(m, all.slice(Math.max(0, at - 24), at)) ? placeholder("phone", m, digits(m)) : m
+    );
+    return out;
+  }
+
+  // tolerant of the model dropping the brackets or lowercasing the label
+  const RESTORE_RE = /\[?\b(EMAIL|PHONE|IBAN|CARD|ACCOUNT|TERM)_(\d+)\b\]?/gi;
+
+  function restore(text: string): string {
+    if (!byPlaceholder.size) return text;
+    return text.replace(RESTORE_RE, (m, label: string, n: string) => byPlaceholder.get(`[${label.toUpperCase()}_${n}]`)?.value ?? m);
+  }
+
+  function restoreDeep<T>(value: T): T {
+    if (typeof value === "string") return restore(value) as T;
+    if (Array.isArray(value)) return value.map(restoreDeep) as T;
+    if (value && typeof value === "object") {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, restoreDeep(v)])) as T;
+    }
+    return value;
+  }
+
+  function audit(): RedactionAudit {
+    const items = [...byKey.values()];
+    const counts: Partial<Record<RedactionKind, number>> = {};
+    for (const i of items) counts[i.kind] = (counts[i.kind] ?? 0) + i.count;
+    return { applied: true, total: items.reduce((n, i) => n + i.count, 0), counts, items };
+  }
+
+  return { mask, restore, restoreDeep, audit };
+}
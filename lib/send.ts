@@ -0,0 +1,83 @@
+// lib/send.ts
+// Policy around /api/send: which sender addresses may be used, and the
+// confirm token that ties a send to the exact message the user previewed.
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { isValidEmail } from "@/utils/recipients";
+
+export type SendPolicy = {
+  from: string; // default sender address
+  fromName?: string;
+  allowed: string[]; // addresses, or "@domain" for a whole domain
+  maxRecipients: number;
+  secret: string;
+};
+
+// a fresh secret per process unless one is configured: tokens then die with a restart
+const PROCESS_SECRET = randomBytes(32).toString("hex");
+
+export function sendPolicyFromEnv(env = process.env): SendPolicy | null {
+  const from = env.SMTP_FROM?.trim() || (isValidEmail(env.SMTP_USER ?? "") ? env.SMTP_USER! : "");
+  if (!from) return null;
+  const allowed = (env.SMTP_ALLOWED_SENDERS ?? "").split(",").map(a => a.trim().toLowerCase()).filter(Boolean);
+  return {
+    from,
+    fromName: env.SMTP_FROM_NAME?.trim() || undefined,
+    allowed: [from.toLowerCase(), ...allowed],
+    maxRecipients: Number(env.SEND_MAX_RECIPIENTS) || 50,
+    secret: env.SEND_CONFIRM_SECRET || PROCESS_SECRET
+  };
+}
+
+export function senderAllowed(policy: SendPolicy, email: string): boolean {
+  const e = email.toLowerCase();
+  return policy.allowed.some(a => (a.startsWith("@") ? e.endsWith(a) : e === a));
+}
+
+/* =========================
+   Confirm token
+   ========================= */
+const TOKEN_TTL_MS = 10 * 60_000;
+
+// anything that changes what goes out must change the digest
+export function messageDigest(msg: unknown): string {
+  return createHash("sha256").update(JSON.stringify(msg)).digest("base64url");
+}
+
+function sign(secret: string, expires: number, digest: string): string {
+  return createHmac("sha256", secret).update(`${expires}.${digest}`).digest("base64url");
+}
+
+export function confirmToken(policy: SendPolicy, digest: string, now = Date.now()): { token: string; expiresAt: string } {
+  const expires = now + TOKEN_TTL_MS;
+  return { token: `${expires}.${sign(policy.secret, expires, digest)}`, expiresAt: new Date(expires).toISOString() };
+}
+
+export function checkConfirmToken(
+  policy: SendPolicy,
+  token: string,
+  digest: string,
+  now = Date.now()
+): "ok" | "expired" | "mismatch" {
+  const [exp, mac] = token.split(".");
+  const expires = Number(exp);
+  if (!Number.isFinite(expires) || !mac) return "mismatch";
+  const expected = Buffer.from(sign(policy.secret, expires, digest));
+  const given = Buffer.from(mac);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return "mismatch";
+  return expires < now ? "expired" : "ok";
+}
+
+// a token sends once: a double click or a replayed request must not mail everyone twice
+const used = new Map<string, number>();
+
+export function consumeConfirmToken(token: string, now = Date.now()): boolean {
+  for (const [t, exp] of used) if (exp < now) used.delete(t);
+  if (used.has(token)) return false;
+  used.set(token, Number(token.split(".")[0]) || now + TOKEN_TTL_MS);
+  return true;
+}
+
+// the relay did not take the message: the same preview may be confirmed again
+export function releaseConfirmToken(token: string) {
+  used.delete(token);
+}
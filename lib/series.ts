@@ -0,0 +1,105 @@
+// lib/series.ts
+// Recurring meetings: groups meetings into a series by title, carries the
+// previous meeting's actions forward and works out their status from the new
+// notes (done / in progress / still open).
+import type { Action, ActionStatus, PreviousAction } from "@/utils/format";
+import type { ExtractedPreviousAction } from "@/lib/extraction";
+import { similar, taskWords } from "@/lib/merge";
+
+/* ---------- series ---------- */
+const MONTHS = "jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?";
+
+/** "Weekly Sync — 1 Aug 2025" and "Weekly sync #32" both map to "weekly sync". */
+export function seriesKey(title?: string): string {
+  return (title ?? "")
+    .toLowerCase()
+    .replace(/\d{4}-\d{2}-\d{2}/g, " ")
+    .replace(/\b\d{1,2}[/.]\d{1,2}(?:[/.]\d{2,4})?\b/g, " ")
+    .replace(new RegExp(`\\b(?:\\d{1,2}(?:st|nd|rd|th)?\\s+)?(?:${MONTHS})\\b(?:\\s+\\d{1,2}(?:st|nd|rd|th)?)?(?:,?\\s+\\d{4})?`, "g"), " ")
+    .replace(/\b(?:week|wk|sprint|session|part|no)\.?\s*\d+\b/g, " ")
+    .replace(/#?\d+/g, " ")
+    .replace(/[^a-z]+/g, " ")
+    .trim();
+}
+
+/** The previous meeting's new actions plus whatever it had carried and not finished. */
+export function carryOver(prev: { actions: Action[]; previous?: PreviousAction[] }): Action[] {
+  const out: Action[] = [];
+  const items = [...(prev.previous ?? []).filter(p => p.status !== "done"), ...prev.actions];
+  for (const a of items) {
+    if (out.some(o => similar(o.task, a.task))) continue;
+    out.push({ owner: a.owner, task: a.task, due: a.due, dueDate: a.dueDate, dueFlags: a.dueFlags, rationale: a.rationale });
+  }
+  return out;
+}
+
+/* ---------- rule-based status ---------- */
+const DONE_RE =
+  /\b(done|completed?|finished|sent|shipped|merged|delivered|closed|resolved|signed off|approved|published|booked|submitted|wrapped up|landed|live)\b|✅/i;
+const PROGRESS_RE =
+  /\b(in progress|wip|working on|started|ongoing|under ?way|halfway|partially|drafted|draft ready|in review|under review|pending|blocked|waiting|slipp(?:ed|ing)|delayed|almost)\b/i;
+const OPEN_RE = /\b(not (?:yet|started|done)|haven'?t|hasn'?t|didn'?t|no update|carry(?:ing)? over|still open)\b/i;
+
+function lineStatus(line: string): ActionStatus | null {
+  if (OPEN_RE.test(line)) return "open";
+  if (PROGRESS_RE.test(line)) return "in-progress";
+  if (DONE_RE.test(line)) return "done";
+  return null;
+}
+
+/** Best note line about `a`: most task words shared, owner mention as a tie-breaker. */
+function findMention(a: Action, lines: string[]): string | null {
+  const words = taskWords(a.task);
+  if (!words.length) return null;
+  const owner = (a.owner || "").split(/[\s,]+/)[0].toLowerCase();
+  let best: { line: string; score: number } | null = null;
+  for (const line of lines) {
+    const have = new Set(taskWords(line));
+    const shared = words.filter(w => have.has(w)).length / words.length;
+    const score = shared + (owner && owner !== "tbd" && line.toLowerCase().includes(owner) ? 0.25 : 0);
+    if (shared >= 0.5 && (!best || score > best.score)) best = { line, score };
+  }
+  return best?.line ?? null;
+}
+
+function noteFrom(line: string): string {
+  const t = line.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, "").replace(/^\[[ xX]?\]\s*/, "").trim();
+  return t.length > 100 ? t.slice(0, 99).trimEnd() + "…" : t;
+}
+
+/** Status for each carried action from the new notes; unmentioned items stay open. */
+export function matchPrevious(carried: Action[], notes: string): ExtractedPreviousAction[] {
+  const lines = notes.split(/\r?\n/).filter(l => l.trim());
+  return carried.map(a => {
+    const line = findMention(a, lines);
+    // checked-off task syntax counts as done
+    const status = line ? (/^\s*(?:[-*•]\s*)?\[[xX]\]/.test(line) ? "done" : lineStatus(line) ?? "open") : "open";
+    return {
+      owner: a.owner,
+      task: a.task,
+      due: a.due,
+      dueDate: a.dueDate ?? "",
+      dueFlags: a.dueFlags ?? [],
+      rationale: a.rationale ?? "",
+      status,
+      note: line ? noteFrom(line) : ""
+    };
+  });
+}
+
+/**
+ * Lines the model's statuses up with the carried list: every carried action
+ * appears exactly once, in order, and keeps its original owner/task/due.
+ * Anything the model skipped falls back to rule-based matching.
+ */
+export function reconcilePrevious(
+  carried: Action[],
+  fromModel: ExtractedPreviousAction[],
+  notes: string
+): ExtractedPreviousAction[] {
+  const rules = matchPrevious(carried, notes);
+  return rules.map((fallback, i) => {
+    const m = fromModel.find(p => similar(p.task, carried[i].task));
+    return m ? { ...fallback, status: m.status, note: m.note } : fallback;
+  });
+}
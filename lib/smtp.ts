@@ -0,0 +1,199 @@
+// lib/smtp.ts
+// A small SMTP submission client (RFC 5321): EHLO, STARTTLS or implicit TLS,
+// AUTH PLAIN/LOGIN, one message per connection. Enough to hand mail to a relay;
+// queueing and retries are the relay's job.
+import net from "net";
+import tls from "tls";
+import os from "os";
+
+export type SmtpSecurity = "tls" | "starttls" | "none";
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  security: SmtpSecurity; // "none" only for local sinks
+  user?: string;
+  pass?: string;
+  hostname: string; // announced in EHLO
+  rejectUnauthorized: boolean;
+  timeoutMs: number;
+};
+
+export function smtpConfigFromEnv(env = process.env): SmtpConfig | null {
+  const host = env.SMTP_HOST?.trim();
+  if (!host) return null;
+  const port = Number(env.SMTP_PORT) || 587;
+  const security = (env.SMTP_SECURE?.trim().toLowerCase() || (port === 465 ? "tls" : "starttls")) as SmtpSecurity;
+  if (!["tls", "starttls", "none"].includes(security)) {
+    throw new Error(`Unknown SMTP_SECURE "${security}". Expected one of: tls, starttls, none.`);
+  }
+  return {
+    host,
+    port,
+    security,
+    user: env.SMTP_USER || undefined,
+    pass: env.SMTP_PASS || undefined,
+    hostname: env.SMTP_HELO_NAME || os.hostname() || "localhost",
+    rejectUnauthorized: env.SMTP_TLS_INSECURE !== "1",
+    timeoutMs: Number(env.SMTP_TIMEOUT_MS) || 20_000
+  };
+}
+
+export type Envelope = { from: string; recipients: string[] };
+
+type Reply = { code: number; text: string };
+
+/* ---------- reply reader ---------- */
+// collects multi-line replies ("250-…" … "250 …") into one
+function replyReader(socket: net.Socket) {
+  let buf = "";
+  let lines: string[] = [];
+  const ready: Reply[] = [];
+  let waiter: { resolve: (r: Reply) => void; reject: (e: Error) => void } | null = null;
+  let failed: Error | null = null;
+
+  const onData = (chunk: Buffer) => {
+    buf += chunk.toString("utf8");
+    for (let i = buf.indexOf("\n"); i >= 0; i = buf.indexOf("\n")) {
+      const line = buf.slice(0, i).replace(/\r$/, "");
+      buf = buf.slice(i + 1);
+      lines.push(line.slice(4));
+      if (line[3] === "-") continue;
+      const reply = { code: Number(line.slice(0, 3)), text: lines.join("\n") };
+      lines = [];
+      if (waiter) {
+        waiter.resolve(reply);
+        waiter = null;
+      } else ready.push(reply);
+    }
+  };
+  const onFail = (e: Error) => {
+    failed ??= e;
+    waiter?.reject(failed);
+    waiter = null;
+  };
+  const onClose = () => onFail(new Error("SMTP connection closed unexpectedly"));
+
+  socket.on("data", onData);
+  socket.on("error", onFail);
+  socket.on("close", onClose);
+
+  return {
+    next(): Promise<Reply> {
+      if (ready.length) return Promise.resolve(ready.shift()!);
+      if (failed) return Promise.reject(failed);
+      return new Promise((resolve, reject) => (waiter = { resolve, reject }));
+    },
+    detach() {
+      socket.off("data", onData);
+      socket.off("error", onFail);
+      socket.off("close", onClose);
+    }
+  };
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket =
+      config.security === "tls"
+        ? tls.connect({ host: config.host, port: config.port, servername: config.host, rejectUnauthorized: config.rejectUnauthorized }, () => resolve(socket))
+        : net.connect({ host: config.host, port: config.port }, () => resolve(socket));
+    socket.once("error", reject);
+  });
+}
+
+function upgrade(socket: net.Socket, config: SmtpConfig): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secure = tls.connect({ socket, servername: config.host, rejectUnauthorized: config.rejectUnauthorized }, () => resolve(secure));
+    secure.once("error", reject);
+  });
+}
+
+// lines starting with "." get another one (RFC 5321 4.5.2); CRLF throughout
+function dotStuff(data: string): string {
+  return data.replace(/\r?\n/g, "\r\n").replace(/^\./gm, "..");
+}
+
+function b64(s: string) {
+  return Buffer.from(s, "utf8").toString("base64");
+}
+
+/* =========================
+   Send
+   ========================= */
+/**
+ * Submits one RFC 822 message. Throws with the server's reply on any
+ * rejection; `rejected` lists recipients refused while others were accepted.
+ */
+export async function sendMail(
+  config: SmtpConfig,
+  envelope: Envelope,
+  data: string,
+  signal?: AbortSignal
+): Promise<{ response: string; rejected: string[] }> {
+  let socket = await connect(config);
+  const close = () => socket.destroy();
+  socket.setTimeout(config.timeoutMs, () => socket.destroy(new Error("SMTP server timed out")));
+  signal?.addEventListener("abort", close, { once: true });
+
+  let reader = replyReader(socket);
+  async function expect(codes: number[], what: string): Promise<Reply> {
+    const r = await reader.next();
+    if (!codes.includes(r.code)) throw new Error(`SMTP ${what} failed: ${r.code} ${r.text}`);
+    return r;
+  }
+  async function command(line: string, codes: number[], what = line.split(" ")[0]): Promise<Reply> {
+    socket.write(line + "\r\n");
+    return expect(codes, what);
+  }
+
+  try {
+    await expect([220], "greeting");
+    let ehlo = await command(`EHLO ${config.hostname}`, [250]);
+
+    if (config.security === "starttls") {
+      if (!/^STARTTLS\b/im.test(ehlo.text)) throw new Error("SMTP server does not offer STARTTLS (set SMTP_SECURE=none for a local sink)");
+      await command("STARTTLS", [220]);
+      reader.detach();
+      socket = await upgrade(socket, config);
+      socket.setTimeout(config.timeoutMs, () => socket.destroy(new Error("SMTP server timed out")));
+      reader = replyReader(socket);
+      ehlo = await command(`EHLO ${config.hostname}`, [250]);
+    }
+
+    if (config.user) {
+      const mechanisms = ehlo.text.match(/^AUTH[ =](.*)$/im)?.[1].toUpperCase().split(/\s+/) ?? [];
+      if (mechanisms.includes("PLAIN") || !mechanisms.includes("LOGIN")) {
+        await command(`AUTH PLAIN ${b64(`\0${config.user}\0${config.pass ?? ""}`)}`, [235], "AUTH");
+      } else {
+        await command("AUTH LOGIN", [334], "AUTH");
+        await command(b64(config.user), [334], "AUTH");
+        await command(b64(config.pass ?? ""), [235], "AUTH");
+      }
+    }
+
+    await command(`MAIL FROM:<${envelope.from}>`, [250], "MAIL FROM");
+    const rejected: string[] = [];
+    for (const rcpt of envelope.recipients) {
+      socket.write(`RCPT TO:<${rcpt}>\r\n`);
+      const r = await reader.next();
+      if (r.code !== 250 && r.code !== 251) rejected.push(rcpt);
+    }
+    if (rejected.length === envelope.recipients.length) {
+      throw new Error(`SMTP RCPT TO failed: every recipient was refused (${rejected.join(", ")})`);
+    }
+
+    await command("DATA", [354]);
+    const body = dotStuff(data);
+    socket.write(body.endsWith("\r\n") ? body : body + "\r\n");
+    const done = await command(".", [250], "DATA");
+    socket.write("QUIT\r\n");
+    return { response: `${done.code} ${done.text}`, rejected };
+  } finally {
+    signal?.removeEventListener("abort", close);
+    reader.detach();
+    socket.on("error", () => {}); // late errors after QUIT are not interesting
+    socket.end();
+    setTimeout(close, 1_000).unref?.();
+  }
+}
@@ -0,0 +1,63 @@
+// lib/stream.ts
+// Progress events for streaming /api/generate, sent as newline-delimited JSON.
+import type { Extraction } from "@/lib/extraction";
+
+export type GenerateStage = "validating" | "extracting" | "repairing" | "composing";
+
+export type GenerateEvent =
+  | { type: "stage"; stage: GenerateStage; part?: number; parts?: number } // part is 1-based, chunked mode only
+  | { type: "section"; key: keyof Extraction; value: unknown }
+  | { type: "result"; data: Record<string, unknown> }
+  | { type: "error"; error: string; status: number };
+
+export type Emit = (event: GenerateEvent) => void;
+
+/**
+ * Wraps `run` in an NDJSON response. The returned signal aborts when the
+ * client goes away so the upstream model request can be cancelled too.
+ */
+export function ndjsonResponse(run: (emit: Emit, signal: AbortSignal) => Promise<void>, signal?: AbortSignal) {
+  const ctrl = new AbortController();
+  signal?.addEventListener("abort", () => ctrl.abort());
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const emit: Emit = event => {
+        if (!ctrl.signal.aborted) controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+      };
+      try {
+        await run(emit, ctrl.signal);
+      } finally {
+        if (!ctrl.signal.aborted) controller.close();
+      }
+    },
+    cancel() {
+      ctrl.abort();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-store",
+      "X-Accel-Buffering": "no"
+    }
+  });
+}
+
+/** Client side: reads an NDJSON response and hands each event to `onEvent`. */
+export async function readEvents(res: Response, onEvent: (event: GenerateEvent) => void) {
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let buf = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buf += decoder.decode(value, { stream: true });
+    const lines = buf.split("\n");
+    buf = lines.pop() ?? "";
+    for (const line of lines) if (line.trim()) onEvent(JSON.parse(line));
+  }
+  if (buf.trim()) onEvent(JSON.parse(buf));
+}
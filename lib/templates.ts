@@ -0,0 +1,124 @@
+// lib/templates.ts
+// Email templates: greeting, intro, section order/headings and sign-off with
+// placeholders, optional per-audience overrides, plus the built-in presets.
+// Templates are plain JSON so teams can share them; always validate with
+// `parseTemplate` before use.
+import { z } from "zod";
+
+export const SECTION_IDS = ["context", "summary", "keyPoints", "decisions", "previous", "actions", "questions"] as const;
+export type SectionId = (typeof SECTION_IDS)[number];
+
+/** Placeholders usable in greeting, intro, sign-off, signature and subject. */
+export const PLACEHOLDERS = ["title", "date", "attendees", "sections", "sender", "type"] as const;
+
+const line = z.string().trim().max(500);
+
+const wording = z.object({
+  greeting: line.optional(),
+  intro: line.optional(),
+  signoff: line.optional()
+});
+
+export const templateSchema = z.object({
+  version: z.literal(1).default(1),
+  name: z.string().trim().min(1).max(60),
+  description: z.string().trim().max(200).optional(),
+  subject: line.optional(), // e.g. "{title} — next steps"
+  ...wording.shape,
+  // listed sections come first, in this order; the rest keep their default order
+  sections: z
+    .array(
+      z.object({
+        id: z.enum(SECTION_IDS),
+        heading: z.string().trim().min(1).max(80).optional(),
+        hidden: z.boolean().optional()
+      })
+    )
+    .max(SECTION_IDS.length)
+    .default([]),
+  audiences: z
+    .object({ internal: wording.optional(), client: wording.optional(), stakeholder: wording.optional() })
+    .optional()
+});
+
+export type EmailTemplate = z.infer<typeof templateSchema>;
+
+export const senderSchema = z.object({
+  name: z.string().trim().max(100),
+  signature: z.string().trim().max(1000).optional() // extra lines under the name
+});
+
+export type Sender = z.infer<typeof senderSchema>;
+
+/* ---------- placeholders ---------- */
+export function fillPlaceholders(s: string, vars: Partial<Record<(typeof PLACEHOLDERS)[number], string>>): string {
+  return s.replace(/\{(\w+)\}/g, (m, k: string) => vars[k as keyof typeof vars] ?? m);
+}
+
+/* ---------- validation ---------- */
+export type TemplateCheck = { ok: true; template: EmailTemplate } | { ok: false; issues: string[] };
+
+export function parseTemplate(json: unknown): TemplateCheck {
+  const r = templateSchema.safeParse(json);
+  if (r.success) return { ok: true, template: r.data };
+  return { ok: false, issues: r.error.issues.map(i => `${i.path.join(".") || "(root)"}: ${i.message}`) };
+}
+
+/* =========================
+   Built-in presets
+   ========================= */
+// Presets only set section order and visibility; their subject, wording and
+// headings live per language in lib/i18n.ts (`presets`).
+export const PRESET_NAMES = ["Next steps first", "Client update", "Stand-up"] as const;
+export type PresetName = (typeof PRESET_NAMES)[number];
+
+export type PresetCopy = Pick<EmailTemplate, "subject" | "greeting" | "intro" | "signoff" | "audiences"> & {
+  headings?: Partial<Record<SectionId, string>>;
+};
+
+export const BUILTIN_TEMPLATES: EmailTemplate[] = [
+  { version: 1, name: "Default", description: "Tone-based intro and sign-off, standard sections.", sections: [] },
+  {
+    version: 1,
+    name: "Next steps first",
+    description: "Leads with owners and deadlines; for busy readers.",
+    sections: [{ id: "actions" }, { id: "previous" }, { id: "decisions" }, { id: "summary" }]
+  },
+  {
+    version: 1,
+    name: "Client update",
+    description: "Formal wording for clients; internal open questions left out.",
+    sections: [{ id: "summary" }, { id: "decisions" }, { id: "actions" }, { id: "questions", hidden: true }]
+  },
+  {
+    version: 1,
+    name: "Stand-up",
+    description: "Short status: done, doing, blocked.",
+    sections: [
+      { id: "previous" },
+      { id: "actions" },
+      { id: "questions" },
+      { id: "context", hidden: true },
+      { id: "summary", hidden: true }
+    ]
+  }
+];
+
+function isPreset(name: string): name is PresetName {
+  return (PRESET_NAMES as readonly string[]).includes(name);
+}
+
+/** Fills a built-in preset's unset wording and headings from the output language's copy. */
+export function localizePreset<T extends Partial<EmailTemplate>>(template: T | undefined, presets: Record<PresetName, PresetCopy>): T | undefined {
+  if (!template?.name || !isPreset(template.name)) return template;
+  const copy = presets[template.name];
+  return {
+    ...template,
+    subject: template.subject ?? copy.subject,
+    greeting: template.greeting ?? copy.greeting,
+    intro: template.intro ?? copy.intro,
+    signoff: template.signoff ?? copy.signoff,
+    sections: template.sections?.map(s => ({ ...s, heading: s.heading ?? copy.headings?.[s.id] })),
+    audiences: template.audiences ?? copy.audiences
+  } as T;
+}
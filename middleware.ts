@@ -0,0 +1,44 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { MAX_UPLOAD_BODY_BYTES } from "@/lib/ingest";
+
+// Oversized bodies are refused before a route reads them (same default as lib/limits).
+// Uploads to /api/ingest have their own, larger limit, which the route also enforces
+// while reading when there is no Content-Length. Rate limits and the spend
+// cap need the Node runtime (file store), so each API route applies them itself.
+const MAX_BODY_BYTES = Number(process.env.MAX_BODY_BYTES) || 1_000_000;
+
+export function middleware(req: NextRequest) {
+  const { pathname } = req.nextUrl;
+
+  if (pathname.startsWith("/api")) {
+    const length = Number(req.headers.get("content-length"));
+    const max = pathname === "/api/ingest" ? MAX_UPLOAD_BODY_BYTES : MAX_BODY_BYTES;
+    if (length > max) {
+      return NextResponse.json(
+        { error: `Request body is larger than ${max.toLocaleString("en")} bytes.` },
+        { status: 413 }
+      );
+    }
+    return NextResponse.next();
+  }
+
+  // Skip internal assets & static files
+
+  if (
+    pathname.startsWith("/_next") ||
+    pathname.startsWith("/icons") ||
+    pathname === "/manifest.webmanifest" ||
+    pathname.startsWith("/favicon")
+  ) {
+    return NextResponse.next();
+  }
+
+  // Add cache-busting headers for all other responses (HTML/pages, APIs)
+  const res = NextResponse.next();
+  res.headers.set("Cache-Control", "no-store, max-age=0");
+  res.headers.set("Pragma", "no-cache");
+  res.headers.set("Expires", "0");
+  res.headers.set("X-Robots-Tag", "noarchive");
+  return res;
+}
@@ -0,0 +1,167 @@
+// scripts/notes-to-email.ts
+// Runs the notes → email pipeline without the UI: reads a notes file or a
+// folder of transcripts and writes the emails (and optional action exports)
+// to disk. Uses the same provider env as the app (.env.local is read).
+//
+//   npm run notes-to-email -- notes/ --out emails --format text,eml --tone formal
+import { promises as fs } from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import { INGEST_ACCEPT, ingestFile } from "@/lib/ingest";
+import { OUTPUT_FORMATS, renderOutput, type OutputFormat } from "@/lib/output";
+import { generateEmail, prepareGenerate } from "@/lib/pipeline";
+import type { GenerateStage } from "@/lib/stream";
+import { buildIcs } from "@/utils/ics";
+import { TRACKER_FORMATS, exportActions, type TrackerFormat } from "@/utils/trackers";
+
+const USAGE = `Usage: notes-to-email <file-or-folder> [options]
+
+  --out <dir>            where to write (default: ./emails)
+  --format <list>        ${OUTPUT_FORMATS.join(",")} (default: text)
+  --actions <list>       action exports: ics,ics-todo,${TRACKER_FORMATS.map(f => f.id).join(",")}
+  --tone <tone>          concise | formal | friendly | persuasive | casual (default: concise)
+  --audience <audience>  internal | client | stakeholder (default: internal)
+  --type <type>          summary | follow-up | action-only (default: follow-up)
+  --length <length>      short | medium | long (default: medium)
+  --language <id>        en | de | fr | es | nl (default: en)
+  --title <title>        default: the file name
+  --date <date>          meeting date, e.g. 2025-08-01
+  --participants <list>  "Anna, Bob"; transcript speakers are added
+  --to/--cc/--bcc <list> recipients for .eml
+  --offline              use the rule-based extractor even if a model is configured
+  --quiet                no progress on stderr
+`;
+
+const STAGE_LABEL: Record<GenerateStage, string> = {
+  validating: "checking",
+  extracting: "extracting",
+  repairing: "repairing",
+  composing: "composing"
+};
+
+function list(v: string | undefined): string[] {
+  return (v ?? "").split(",").map(s => s.trim()).filter(Boolean);
+}
+
+function loadEnv() {
+  for (const file of [".env.local", ".env"]) {
+    try {
+      process.loadEnvFile(file); // never overrides variables already set
+    } catch {}
+  }
+}
+
+async function inputs(target: string): Promise<string[]> {
+  const stat = await fs.stat(target);
+  if (!stat.isDirectory()) return [target];
+  const accepted = INGEST_ACCEPT.split(",");
+  const names = (await fs.readdir(target)).filter(n => accepted.includes(path.extname(n).toLowerCase())).sort();
+  return names.map(n => path.join(target, n));
+}
+
+/* =========================
+   Main
+   ========================= */
+async function main(): Promise<number> {
+  const { values: o, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: "string", default: "emails" },
+      format: { type: "string", default: "text" },
+      actions: { type: "string" },
+      tone: { type: "string", default: "concise" },
+      audience: { type: "string", default: "internal" },
+      type: { type: "string", default: "follow-up" },
+      length: { type: "string", default: "medium" },
+      language: { type: "string", default: "en" },
+      title: { type: "string" },
+      date: { type: "string" },
+      participants: { type: "string", default: "" },
+      to: { type: "string" },
+      cc: { type: "string" },
+      bcc: { type: "string" },
+      offline: { type: "boolean", default: false },
+      quiet: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false }
+    }
+  });
+  if (o.help || positionals.length !== 1) {
+    process.stderr.write(USAGE);
+    return o.help ? 0 : 2;
+  }
+
+  const formats = list(o.format);
+  const unknownFormat = formats.find(f => !(OUTPUT_FORMATS as readonly string[]).includes(f));
+  const actions = list(o.actions);
+  const trackerIds = TRACKER_FORMATS.map(f => f.id as string);
+  const unknownAction = actions.find(a => a !== "ics" && a !== "ics-todo" && !trackerIds.includes(a));
+  if (!formats.length || unknownFormat || unknownAction) {
+    process.stderr.write(`Unknown format: ${unknownFormat ?? unknownAction ?? "(none)"}\n\n${USAGE}`);
+    return 2;
+  }
+
+  loadEnv();
+  const files = await inputs(positionals[0]).catch(() => null);
+  if (!files) {
+    process.stderr.write(`Cannot read ${positionals[0]}\n`);
+    return 1;
+  }
+  if (!files.length) {
+    process.stderr.write(`No notes found in ${positionals[0]} (${INGEST_ACCEPT})\n`);
+    return 1;
+  }
+  await fs.mkdir(o.out!, { recursive: true });
+
+  let failed = 0;
+  for (const file of files) {
+    const base = path.basename(file, path.extname(file));
+    const log = (msg: string) => { if (!o.quiet) process.stderr.write(`${base}: ${msg}\n`); };
+    try {
+      const ingested = await ingestFile(path.basename(file), await fs.readFile(file));
+      const participants = [o.participants!, ...ingested.speakers].filter(Boolean).join(", ");
+      const title = o.title ?? base.replace(/[_-]+/g, " ");
+      const ready = prepareGenerate({
+        title, date: o.date, participants, notes: ingested.notes,
+        audience: o.audience, tone: o.tone, type: o.type, length: o.length, language: o.language
+      });
+      if (!ready.ok) throw new Error(ready.error);
+
+      const result = await generateEmail(ready.p, {
+        config: o.offline ? null : ready.config,
+        emit: e => { if (e.type === "stage") log(STAGE_LABEL[e.stage] + (e.part ? ` part ${e.part}/${e.parts}` : "")); }
+      });
+
+      const written: string[] = [];
+      const write = async (name: string, content: string) => {
+        await fs.writeFile(path.join(o.out!, name), content);
+        written.push(name);
+      };
+      for (const f of formats as OutputFormat[]) {
+        const out = renderOutput(result, f, { to: o.to, cc: o.cc, bcc: o.bcc });
+        await write(`${base}.${out.ext}`, out.content);
+      }
+      const meeting = { title, date: o.date };
+      for (const a of actions) {
+        if (!result.actions.length) break;
+        if (a === "ics" || a === "ics-todo") {
+          const kind = a === "ics" ? "event" : "todo";
+          await write(`${base}${a === "ics" ? "" : ".tasks"}.ics`, buildIcs({ ...meeting, participants, actions: result.actions, kind }));
+        } else {
+          // per-format extensions keep csv and jira (or github and linear) apart
+          const { ext } = TRACKER_FORMATS.find(f => f.id === a)!;
+          await write(`${base}.actions.${ext}`, exportActions(a as TrackerFormat, result.actions, meeting).content);
+        }
+      }
+      log(`wrote ${written.join(", ")}`);
+    } catch (e: any) {
+      failed++;
+      process.stderr.write(`${base}: failed: ${e?.message ?? e}\n`);
+    }
+  }
+  return failed ? 1 : 0;
+}
+
+main().then(code => process.exit(code), e => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,44 @@
+import { execFile } from "child_process";
+import { mkdtemp, readFile, readdir, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+const run = promisify(execFile);
+const ROOT = path.join(__dirname, "..");
+const NOTES = path.join(__dirname, "fixtures", "offline", "markers.txt");
+
+let out: string;
+
+beforeAll(async () => {
+  out = await mkdtemp(path.join(os.tmpdir(), "notes-to-email-"));
+});
+afterAll(() => rm(out, { recursive: true, force: true }));
+
+describe("notes-to-email CLI", () => {
+  it("writes one file per requested action export", async () => {
+    await run(
+      path.join(ROOT, "node_modules", ".bin", "tsx"),
+      [
+        "scripts/notes-to-email.ts", NOTES, "--out", out, "--format", "text,eml",
+        "--actions", "csv,jira,github,linear,ics-todo", "--offline", "--quiet", "--date", "2025-08-01"
+      ],
+      { cwd: ROOT, timeout: 60_000 }
+    );
+
+    expect((await readdir(out)).sort()).toEqual([
+      "markers.actions.csv",
+      "markers.actions.github.json",
+      "markers.actions.jira.csv",
+      "markers.actions.linear.json",
+      "markers.eml",
+      "markers.tasks.ics",
+      "markers.txt"
+    ]);
+    expect(await readFile(path.join(out, "markers.actions.csv"), "utf8")).not.toEqual(
+      await readFile(path.join(out, "markers.actions.jira.csv"), "utf8")
+    );
+    expect(await readFile(path.join(out, "markers.actions.jira.csv"), "utf8")).toMatch(/^Summary,Issue Type/);
+  }, 90_000);
+});
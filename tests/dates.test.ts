@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { findDuePhrase, normalizeDue } from "@/lib/dates";
+
+const BASE = new Date("2025-08-01T00:00:00Z"); // a Friday
+
+function due(phrase: string) {
+  return normalizeDue(phrase, BASE, BASE);
+}
+
+describe("numeric and month-name dates", () => {
+  it("reads numeric dates month-first when both readings fit", () => {
+    expect(due("by 8/15")).toEqual({ dueDate: "2025-08-15", dueFlags: [] });
+    expect(due("by 9/8")).toEqual({ dueDate: "2025-09-08", dueFlags: ["ambiguous"] });
+  });
+
+  it("reads day-first when the first number cannot be a month", () => {
+    expect(due("by 15/8")).toEqual({ dueDate: "2025-08-15", dueFlags: [] });
+    expect(due("by 31/12")).toEqual({ dueDate: "2025-12-31", dueFlags: [] });
+  });
+
+  it("flags a numeric date that only fits next year", () => {
+    expect(due("by 20/7")).toEqual({ dueDate: "2026-07-20", dueFlags: ["ambiguous"] });
+  });
+
+  it("leaves impossible dates unresolved instead of rolling them over", () => {
+    expect(due("Feb 30")).toEqual({ dueDate: "", dueFlags: ["unresolved"] });
+    expect(due("31 April")).toEqual({ dueDate: "", dueFlags: ["unresolved"] });
+    expect(due("by 13/13")).toEqual({ dueDate: "", dueFlags: ["unresolved"] });
+    expect(due("2025-02-30")).toEqual({ dueDate: "", dueFlags: ["unresolved"] });
+  });
+
+  it("finds 29 February in the next leap year", () => {
+    expect(due("29 Feb")).toEqual({ dueDate: "2028-02-29", dueFlags: ["ambiguous"] });
+  });
+
+  it("keeps the phrase and position in the line", () => {
+    expect(findDuePhrase("Send the deck by 15/8 please", BASE)).toEqual({ phrase: "by 15/8", index: 14, iso: "2025-08-15", ambiguous: false });
+  });
+});
@@ -0,0 +1,98 @@
+import { NextRequest } from "next/server";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/drafts/route";
+import { tokenCookie, type DraftProviderId } from "@/lib/drafts";
+import { startHttpStub, type StubRequest } from "./helpers/http-stub";
+
+// one stub plays both Gmail and Graph; the token "expired" gets a 401 like a revoked grant
+let api: Awaited<ReturnType<typeof startHttpStub>>;
+
+beforeAll(async () => {
+  api = await startHttpStub((req: StubRequest) => {
+    if (req.headers.authorization === "Bearer expired") return { status: 401, json: { error: "invalid_grant" } };
+    if (req.path === "/gmail/v1/users/me/drafts") return { json: { id: "r-1", message: { id: "m-1" } } };
+    if (req.path === "/v1.0/me/messages") return { json: { id: "AAMk-1", webLink: "https://outlook.example/d/1" } };
+    return { status: 404 };
+  });
+});
+afterAll(() => api.close());
+
+const MESSAGE = {
+  to: "anna@example.com",
+  cc: "bob@example.com, carla@example.com",
+  bcc: "hidden@example.com",
+  subject: "Weekly sync — follow-up",
+  text: "Hi all,\nThanks!"
+};
+
+// the token travels in the provider's httpOnly cookie, as from the browser
+function post(provider: DraftProviderId, token?: string) {
+  return POST(
+    new NextRequest("http://localhost/api/drafts", {
+      method: "POST",
+      headers: { "content-type": "application/json", ...(token ? { cookie: `${tokenCookie(provider)}=${token}` } : {}) },
+      body: JSON.stringify({ provider, ...MESSAGE })
+    })
+  );
+}
+
+beforeEach(() => {
+  api.requests.length = 0;
+  vi.stubEnv("GOOGLE_CLIENT_ID", "client");
+  vi.stubEnv("GOOGLE_CLIENT_SECRET", "secret");
+  vi.stubEnv("GMAIL_API_URL", api.url);
+  vi.stubEnv("MS_CLIENT_ID", "client");
+  vi.stubEnv("MS_CLIENT_SECRET", "secret");
+  vi.stubEnv("MS_GRAPH_URL", `${api.url}/v1.0`);
+});
+
+describe("POST /api/drafts", () => {
+  it("creates a Gmail draft from the base64url raw message, Cc and Bcc included", async () => {
+    const res = await post("gmail", "tok-1");
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ provider: "gmail", id: "r-1", webLink: "https://mail.google.com/mail/#drafts?compose=m-1" });
+
+    const [sent] = api.requests;
+    expect(sent.headers.authorization).toBe("Bearer tok-1");
+    const { raw } = JSON.parse(sent.body).message;
+    expect(raw).toMatch(/^[A-Za-z0-9_-]+$/);
+    const eml = Buffer.from(raw, "base64url").toString("utf8");
+    expect(eml).toMatch(/^To: anna@example\.com\r$/m);
+    expect(eml).toMatch(/^Cc: bob@example\.com, carla@example\.com\r$/m);
+    expect(eml).toMatch(/^Bcc: hidden@example\.com\r$/m);
+    expect(eml).toContain("Hi all,\r\nThanks!");
+  });
+
+  it("creates an Outlook draft with the recipients as Graph lists", async () => {
+    const res = await post("outlook", "tok-2");
+    expect(await res.json()).toEqual({ provider: "outlook", id: "AAMk-1", webLink: "https://outlook.example/d/1" });
+
+    const sent = JSON.parse(api.requests[0].body);
+    expect(sent.body).toEqual({ contentType: "Text", content: "Hi all,\nThanks!" });
+    expect(sent.toRecipients).toEqual([{ emailAddress: { address: "anna@example.com" } }]);
+    expect(sent.ccRecipients.map((r: { emailAddress: { address: string } }) => r.emailAddress.address)).toEqual([
+      "bob@example.com",
+      "carla@example.com"
+    ]);
+    expect(sent.bccRecipients).toEqual([{ emailAddress: { address: "hidden@example.com" } }]);
+  });
+
+  it("drops the stored token when the provider answers 401", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const res = await post("gmail", "expired");
+    expect(res.status).toBe(401);
+    expect(await res.json()).toMatchObject({ connect: true });
+
+    const cookie = res.headers.get("set-cookie") ?? "";
+    expect(cookie).toMatch(new RegExp(`^${tokenCookie("gmail")}=;`));
+    expect(cookie).toMatch(/Path=\/api\/drafts/);
+    expect(cookie).toMatch(/Expires=Thu, 01 Jan 1970/);
+  });
+
+  it("asks to connect when there is no token", async () => {
+    const res = await post("outlook");
+    expect(res.status).toBe(401);
+    expect(await res.json()).toEqual({ error: "Connect Outlook first.", connect: true });
+    expect(api.requests).toHaveLength(0);
+  });
+});
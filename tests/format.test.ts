@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { BUILTIN_TEMPLATES } from "@/lib/templates";
+import { composeEmail, formatWhen, subjectFrom, type ComposeOptions } from "@/utils/format";
+
+const BASE: ComposeOptions = {
+  title: "Q3 launch",
+  date: "2025-08-01",
+  participants: "Anna, Bob",
+  audience: "internal",
+  tone: "concise",
+  type: "follow-up",
+  length: "medium",
+  summary: "Reviewed the launch plan.\nMarketing needs final copy.",
+  context: "The launch moved twice this quarter.",
+  decisions: ["Launch in the EU first"],
+  actions: [
+    { owner: "Anna", task: "Send the final copy", due: "by Wednesday", dueDate: "2025-08-06", rationale: "The briefing depends on it" },
+    { owner: "", task: "Book the retro", due: "" }
+  ],
+  questions: ["Partner announcement?"]
+};
+
+/* ---------- formatWhen ---------- */
+describe("formatWhen", () => {
+  it("formats ISO and parseable dates", () => {
+    expect(formatWhen("2025-08-01")).toBe("1 Aug 2025");
+    expect(formatWhen("2025-08-01", "en-US")).toBe("Aug 1, 2025");
+  });
+
+  it("keeps text it cannot parse", () => {
+    expect(formatWhen("  last sprint review ")).toBe("last sprint review");
+  });
+
+  it("returns null for a missing or blank date", () => {
+    expect(formatWhen()).toBeNull();
+    expect(formatWhen("   ")).toBeNull();
+  });
+});
+
+/* ---------- subjectFrom ---------- */
+describe("subjectFrom", () => {
+  it("joins the title and the email type", () => {
+    expect(subjectFrom("Q3 launch")).toBe("Q3 launch — follow-up");
+    expect(subjectFrom("Q3 launch", "action-only")).toBe("Q3 launch — action items");
+    expect(subjectFrom("  ", "summary")).toBe("Meeting — summary");
+  });
+
+  it("caps the subject at 70 characters", () => {
+    expect(subjectFrom("x".repeat(100))).toHaveLength(70);
+  });
+
+  it("fills a template subject and drops empty parentheses", () => {
+    expect(subjectFrom("Q3 launch", "summary", { subject: "{title} ({date}) {type}" }, "2025-08-01")).toBe("Q3 launch (1 Aug 2025) summary");
+    expect(subjectFrom("Q3 launch", "summary", { subject: "{title} ({date}) {type}" })).toBe("Q3 launch summary");
+  });
+
+  it("uses the output language", () => {
+    expect(subjectFrom(undefined, "follow-up", undefined, undefined, "de")).not.toBe("Meeting — follow-up");
+  });
+
+  it("takes a built-in preset's subject from the output language", () => {
+    const preset = BUILTIN_TEMPLATES.find(t => t.name === "Next steps first");
+    expect(subjectFrom("Q3 launch", "follow-up", preset)).toBe("Q3 launch — next steps");
+    expect(subjectFrom("Q3 launch", "follow-up", preset, undefined, "de")).toBe("Q3 launch — nächste Schritte");
+  });
+});
+
+/* ---------- composeEmail ---------- */
+describe("composeEmail", () => {
+  it("lays out greeting, intro, attendees, sections and signoff in order", () => {
+    const lines = composeEmail(BASE).split("\n");
+    expect(lines[0]).toBe("Hi all,");
+    expect(lines[2]).toBe("Attendees: Anna, Bob");
+    const order = ["Summary", "Decisions", "Action Items", "Open Questions"].map(h => lines.indexOf(h));
+    expect(order.every(i => i > 0)).toBe(true);
+    expect([...order].sort((a, b) => a - b)).toEqual(order);
+    expect(lines.slice(-2)).toEqual(["Thanks!", "{your name}"]);
+  });
+
+  it("writes a placeholder when there are no participants", () => {
+    expect(composeEmail({ ...BASE, participants: " " })).toContain("Attendees: —");
+  });
+
+  it("shows the resolved due date and TBD for a missing owner", () => {
+    const body = composeEmail(BASE);
+    expect(body).toContain("- Anna — Send the final copy — Wed, 6 Aug 2025");
+    expect(body).toMatch(/- TBD — Book the retro/);
+  });
+
+  it("keeps only the actions for action-only emails", () => {
+    const body = composeEmail({ ...BASE, type: "action-only" });
+    expect(body).toContain("Action Items");
+    expect(body).not.toContain("Decisions");
+    expect(body).not.toContain("Open Questions");
+  });
+
+  it("short: one summary line and capped lists", () => {
+    const body = composeEmail({ ...BASE, length: "short", decisions: ["a", "b", "c", "d", "e"] });
+    expect(body).toContain("Reviewed the launch plan.");
+    expect(body).not.toContain("Marketing needs final copy.");
+    expect(body).toContain("…and 2 more");
+  });
+
+  it("long: adds the context and each action's rationale", () => {
+    const body = composeEmail({ ...BASE, length: "long" });
+    expect(body).toContain("The launch moved twice this quarter.");
+    expect(body).toContain("Why: The briefing depends on it");
+    expect(composeEmail(BASE)).not.toContain("The launch moved twice");
+  });
+
+  it("signs with the sender instead of the placeholder", () => {
+    const body = composeEmail({ ...BASE, sender: { name: "Anna Smith", signature: "Product, Acme" } });
+    expect(body.endsWith("Thanks!\nAnna Smith\nProduct, Acme")).toBe(true);
+  });
+
+  it("words built-in presets in the output language", () => {
+    const preset = BUILTIN_TEMPLATES.find(t => t.name === "Client update");
+    const en = composeEmail({ ...BASE, audience: "client", template: preset });
+    expect(en).toContain("Dear all,");
+    expect(en).toContain("Agreed");
+    const de = composeEmail({ ...BASE, audience: "client", template: preset, language: "de" });
+    expect(de).toContain("Sehr geehrte Damen und Herren,");
+    expect(de).toContain("Vereinbart");
+    expect(de).toContain("Nächste Schritte");
+    expect(de).not.toMatch(/Dear all|Agreed|Next Steps|Kind regards/);
+  });
+});
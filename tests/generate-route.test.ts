@@ -0,0 +1,194 @@
+import { NextRequest } from "next/server";
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { LLMProvider } from "@/lib/llm";
+import type { GenerateEvent } from "@/lib/stream";
+import { POST } from "@/app/api/generate/route";
+import { fixtureProvider } from "./helpers/llm";
+
+// the route builds its provider from the env; hand it the fixture's instead
+const fake = vi.hoisted(() => ({ llm: null as LLMProvider | null }));
+vi.mock("@/lib/llm", async importOriginal => ({
+  ...(await importOriginal<typeof import("@/lib/llm")>()),
+  createProvider: async () => {
+    if (!fake.llm) throw new Error("no fixture provider set for this test");
+    return fake.llm;
+  }
+}));
+
+function post(body: unknown, { query = "", headers = {} }: { query?: string; headers?: Record<string, string> } = {}) {
+  return POST(
+    new NextRequest(`http://localhost/api/generate${query}`, {
+      method: "POST",
+      headers: { "content-type": "application/json", ...headers },
+      body: typeof body === "string" ? body : JSON.stringify(body)
+    })
+  );
+}
+
+function events(text: string): GenerateEvent[] {
+  return text.trim().split("\n").map(l => JSON.parse(l));
+}
+
+const VALID = {
+  title: "Weekly sync",
+  date: "2025-08-01",
+  audience: "internal",
+  tone: "concise",
+  type: "follow-up",
+  length: "medium",
+  notes: "- Decided: ship v2 on Monday\n- Anna to update the docs by Friday"
+};
+
+beforeEach(() => {
+  fake.llm = null;
+});
+
+/* =========================
+   Request validation (offline path)
+   ========================= */
+describe("POST /api/generate validation", () => {
+  it("rejects malformed JSON", async () => {
+    const res = await post("{not json");
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: "Invalid input" });
+  });
+
+  it.each([
+    ["missing notes", { ...VALID, notes: undefined }],
+    ["notes under 10 characters", { ...VALID, notes: "too short" }],
+    ["an unknown tone", { ...VALID, tone: "sarcastic" }],
+    ["an unknown audience", { ...VALID, audience: "everyone" }],
+    ["an unknown language", { ...VALID, language: "xx" }],
+    ["a missing length", { ...VALID, length: undefined }]
+  ])("rejects %s", async (_, body) => {
+    const res = await post(body);
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: "Invalid input" });
+  });
+
+  it("refuses notes over the character limit with 413", async () => {
+    const res = await post({ ...VALID, notes: "x".repeat(200_001) });
+    expect(res.status).toBe(413);
+    expect((await res.json()).error).toMatch(/limit is 200,000/);
+  });
+
+  it("refuses bodies over MAX_BODY_BYTES before parsing", async () => {
+    vi.stubEnv("MAX_BODY_BYTES", "100");
+    const res = await post(VALID);
+    expect(res.status).toBe(413);
+  });
+
+  it("answers 500 when the provider is misconfigured", async () => {
+    vi.stubEnv("LLM_PROVIDER", "bogus");
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const res = await post(VALID);
+    expect(res.status).toBe(500);
+    expect(await res.json()).toEqual({ error: "LLM provider is misconfigured." });
+  });
+
+  it("rate-limits per client", async () => {
+    vi.stubEnv("RATE_LIMIT_PER_MINUTE", "1");
+    const headers = { "x-forwarded-for": "203.0.113.7" };
+    expect((await post(VALID, { headers })).status).toBe(200);
+    const res = await post(VALID, { headers });
+    expect(res.status).toBe(429);
+    expect(res.headers.get("Retry-After")).toBeTruthy();
+  });
+
+  it("reports validation errors as a stream event", async () => {
+    const res = await post({ ...VALID, notes: "" }, { query: "?stream=1" });
+    expect(events(await res.text())).toEqual([
+      { type: "stage", stage: "validating" },
+      { type: "error", error: "Invalid input", status: 400 }
+    ]);
+  });
+
+  it("uses the offline extractor when no provider is configured", async () => {
+    const res = await post(VALID);
+    expect(res.status).toBe(200);
+    const data = await res.json();
+    expect(data.subject).toBe("Weekly sync — follow-up");
+    expect(data.extraction.decisions).toEqual(["Ship v2 on Monday"]);
+    expect(data.actions).toMatchObject([{ owner: "Anna", task: "Update the docs", dueDate: "2025-08-08" }]);
+    expect(data.validation).toBeUndefined();
+    expect(data.redaction.applied).toBe(false);
+  });
+});
+
+/* =========================
+   Recorded model replies
+   ========================= */
+describe("POST /api/generate with a recorded model", () => {
+  const saves: (() => Promise<void>)[] = [];
+  async function use(name: string) {
+    const f = await fixtureProvider(name);
+    fake.llm = f.llm;
+    saves.push(f.save);
+    return f;
+  }
+  beforeEach(() => {
+    // any configured provider will do: createProvider is faked
+    vi.stubEnv("LLM_PROVIDER", "openai");
+    vi.stubEnv("OPENAI_API_KEY", "recorded");
+  });
+  afterAll(async () => {
+    for (const save of saves) await save();
+  });
+
+  it("extracts, resolves due dates and composes the email", async () => {
+    const { fixture } = await use("follow-up");
+    const res = await post(fixture.request);
+    expect(res.status).toBe(200);
+    const data = await res.json();
+
+    expect(data.subject).toBe("Pricing launch — follow-up");
+    expect(data.validation).toEqual({ repaired: false, dropped: [] });
+    expect(data.extraction.decisions).toHaveLength(2);
+    // sorted by resolved date, not by the order the model listed them
+    expect(data.actions.map((a: { owner: string; dueDate: string }) => [a.owner, a.dueDate])).toEqual([
+      ["Bob", "2025-08-05"],
+      ["Anna", "2025-08-08"]
+    ]);
+    expect(data.body).toContain("Attendees: Anna Smith, Bob Lee");
+    expect(data.html).toContain("Pricing launch");
+  });
+
+  it("streams stages and sections before the result", async () => {
+    const { fixture } = await use("follow-up");
+    const res = await post(fixture.request, { query: "?stream=1" });
+    expect(res.headers.get("content-type")).toMatch(/ndjson/);
+    const all = events(await res.text());
+
+    const stages = all.flatMap(e => (e.type === "stage" ? [e.stage] : []));
+    expect(stages).toEqual(["validating", "extracting", "composing"]);
+    const sections = all.flatMap(e => (e.type === "section" ? [e.key] : []));
+    expect(sections).toEqual(expect.arrayContaining(["summary", "decisions", "actions", "questions"]));
+    const last = all[all.length - 1];
+    expect(last.type).toBe("result");
+    expect(last.type === "result" && last.data.subject).toBe("Pricing launch — follow-up");
+  });
+
+  it("sends schema issues back once and uses the repaired reply", async () => {
+    const { fixture, prompts } = await use("repair");
+    const res = await post(fixture.request);
+    const data = await res.json();
+
+    expect(prompts).toHaveLength(2);
+    expect(prompts[1].at(-1)?.content).toMatch(/did not match the required schema/);
+    expect(data.validation).toEqual({ repaired: true, dropped: [] });
+    expect(data.actions).toMatchObject([{ owner: "Carla", dueDate: "2025-08-06" }]);
+  });
+
+  it("masks PII before the model call and restores it in the email", async () => {
+    const { fixture, prompts } = await use("redaction");
+    const res = await post(fixture.request);
+    const data = await res.json();
+
+    const sent = JSON.stringify(prompts);
+    expect(sent).not.toContain("sales@vendor.example");
+    expect(sent).not.toContain("7946 0958");
+    expect(data.redaction).toMatchObject({ applied: true, counts: { email: 1, phone: 1 } });
+    expect(data.body).toContain("sales@vendor.example");
+    expect(data.body).not.toMatch(/\[(EMAIL|PHONE)_\d+\]/);
+  });
+});
@@ -0,0 +1,30 @@
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { emailOptionsSchema, normalizeExtraction, renderEmail } from "@/lib/compose";
+import { extractionSchema } from "@/lib/extraction";
+import extraction from "./fixtures/extraction.json";
+
+// one golden email per tone × audience × type; `npm test -- -u` rewrites them after an intended change
+const TONES = ["concise", "formal", "friendly", "persuasive", "casual"] as const;
+const AUDIENCES = ["internal", "client", "stakeholder"] as const;
+const TYPES = ["summary", "follow-up", "action-only"] as const;
+
+const combos = TONES.flatMap(tone => AUDIENCES.flatMap(audience => TYPES.map(type => ({ tone, audience, type }))));
+
+describe("golden emails", () => {
+  it.each(combos)("$tone / $audience / $type", async ({ tone, audience, type }) => {
+    const p = emailOptionsSchema.parse({
+      title: "Q3 launch",
+      date: "2025-08-01",
+      participants: "Anna Smith, Bob Lee",
+      audience,
+      tone,
+      type,
+      length: "medium"
+    });
+    const email = renderEmail(p, normalizeExtraction(extractionSchema.parse(extraction), p));
+    await expect(`Subject: ${email.subject}\n\n${email.body}\n`).toMatchFileSnapshot(
+      path.join(__dirname, "golden", `${tone}.${audience}.${type}.txt`)
+    );
+  });
+});
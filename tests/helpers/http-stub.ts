@@ -0,0 +1,26 @@
+// tests/helpers/http-stub.ts
+// A local HTTP server standing in for a third-party API: it records every
+// request and answers with whatever the test's handler returns.
+import http from "http";
+import net from "net";
+
+export type StubRequest = { method: string; path: string; headers: http.IncomingHttpHeaders; body: string };
+export type StubReply = { status?: number; json?: unknown };
+
+export async function startHttpStub(handler: (req: StubRequest) => StubReply = () => ({})) {
+  const requests: StubRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", chunk => (body += chunk));
+    req.on("end", () => {
+      const recorded = { method: req.method ?? "GET", path: req.url ?? "/", headers: req.headers, body };
+      requests.push(recorded);
+      const reply = handler(recorded);
+      res.writeHead(reply.status ?? 200, { "content-type": "application/json" });
+      res.end(JSON.stringify(reply.json ?? {}));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const url = `http://127.0.0.1:${(server.address() as net.AddressInfo).port}`;
+  return { url, requests, close: () => new Promise<void>(resolve => server.close(() => resolve())) };
+}
@@ -0,0 +1,72 @@
+// tests/helpers/llm.ts
+// Recorded model calls for the pipeline tests. A fixture holds a request body
+// and every call the pipeline made for it (messages in, raw text out); the
+// fake provider checks each prompt against the recording and replays the
+// reply. RECORD_LLM=1 with a provider configured calls the real model instead
+// and rewrites the fixture.
+import { promises as fs } from "fs";
+import path from "path";
+import { expect, vi } from "vitest";
+import type { ChatMessage, LLMProvider } from "@/lib/llm";
+
+export type RecordedCall = { messages: ChatMessage[]; response: string };
+
+export type Fixture = { request: Record<string, unknown>; calls: RecordedCall[] };
+
+const DIR = path.join(__dirname, "..", "fixtures", "llm");
+// the shell's provider settings, passed through by vitest.config.ts only when recording
+const RECORD_ENV: Record<string, string> | null = process.env.RECORD_LLM_ENV ? JSON.parse(process.env.RECORD_LLM_ENV) : null;
+
+export async function loadFixture(name: string): Promise<Fixture> {
+  return JSON.parse(await fs.readFile(path.join(DIR, `${name}.json`), "utf8"));
+}
+
+/** Replays the recorded replies in order; streams them in small pieces like a real provider. */
+export function replayProvider(fixture: Fixture): LLMProvider & { calls: ChatMessage[][] } {
+  const calls: ChatMessage[][] = [];
+  return {
+    name: "openai",
+    model: "recorded",
+    calls,
+    async complete(messages, opts = {}) {
+      const call = fixture.calls[calls.length];
+      calls.push(messages);
+      if (!call) throw new Error(`Model call ${calls.length} was not recorded; re-record with RECORD_LLM=1.`);
+      expect(messages, "the prompt changed since this fixture was recorded; re-record with RECORD_LLM=1").toEqual(call.messages);
+      for (let i = 0; i < call.response.length; i += 16) opts.onDelta?.(call.response.slice(i, i + 16));
+      return call.response;
+    }
+  };
+}
+
+/**
+ * The provider for one fixture: a replay normally, the configured model when
+ * recording. `prompts` collects the messages of every call either way; `save`
+ * writes what was recorded (a no-op when replaying).
+ */
+export async function fixtureProvider(name: string) {
+  const fixture = await loadFixture(name);
+  if (!RECORD_ENV) {
+    const llm = replayProvider(fixture);
+    return { fixture, llm, prompts: llm.calls, save: async () => {} };
+  }
+
+  const { createProvider, llmConfigFromEnv } = await vi.importActual<typeof import("@/lib/llm")>("@/lib/llm");
+  const config = llmConfigFromEnv(RECORD_ENV);
+  if (!config) throw new Error("RECORD_LLM=1 needs a configured provider (see README).");
+  const real = await createProvider(config);
+  const calls: RecordedCall[] = [];
+  const prompts: ChatMessage[][] = [];
+  const llm: LLMProvider = {
+    name: real.name,
+    model: real.model,
+    async complete(messages, opts) {
+      const response = await real.complete(messages, opts);
+      calls.push({ messages, response });
+      prompts.push(messages);
+      return response;
+    }
+  };
+  const save = () => fs.writeFile(path.join(DIR, `${name}.json`), JSON.stringify({ ...fixture, calls }, null, 2) + "\n");
+  return { fixture, llm, prompts, save };
+}
@@ -0,0 +1,51 @@
+// tests/helpers/smtp-sink.ts
+// A plain-text SMTP server on a random local port that accepts everything
+// (except recipients containing "reject") and keeps each session's commands
+// and message data for the assertions.
+import net from "net";
+
+export type SinkSession = { commands: string[]; data: string };
+
+export async function startSmtpSink() {
+  const sessions: SinkSession[] = [];
+  const server = net.createServer(socket => {
+    const session: SinkSession = { commands: [], data: "" };
+    sessions.push(session);
+    let buf = "";
+    let inData = false;
+    const reply = (line: string) => socket.write(line + "\r\n");
+    reply("220 sink ready");
+    socket.on("data", chunk => {
+      buf += chunk.toString("utf8");
+      for (let i = buf.indexOf("\r\n"); i >= 0; i = buf.indexOf("\r\n")) {
+        const line = buf.slice(0, i);
+        buf = buf.slice(i + 2);
+        if (inData) {
+          if (line === ".") {
+            inData = false;
+            reply("250 2.0.0 queued as T1");
+          } else {
+            session.data += line + "\r\n";
+          }
+          continue;
+        }
+        session.commands.push(line);
+        if (/^EHLO /.test(line)) reply("250-sink\r\n250-AUTH LOGIN PLAIN\r\n250 8BITMIME");
+        else if (/^AUTH PLAIN /.test(line)) reply("235 2.7.0 accepted");
+        else if (/^MAIL FROM:/.test(line)) reply("250 ok");
+        else if (/^RCPT TO:/.test(line)) reply(/reject/.test(line) ? "550 5.1.1 no such user" : "250 ok");
+        else if (line === "DATA") {
+          inData = true;
+          reply("354 go ahead");
+        } else if (line === "QUIT") {
+          reply("221 bye");
+          socket.end();
+        } else reply("502 unknown command");
+      }
+    });
+    socket.on("error", () => {});
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const port = (server.address() as net.AddressInfo).port;
+  return { port, sessions, close: () => new Promise<void>(resolve => server.close(() => resolve())) };
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { buildIcs } from "@/utils/ics";
+
+describe("buildIcs", () => {
+  it("invites every owner with an address, however the owners are joined", () => {
+    const ics = buildIcs({
+      participants: "Anna Smith <anna@acme.com>, Bob <bob@acme.com>, Carla <carla@acme.com>",
+      actions: [
+        { owner: "Anna & Bob", task: "Send the final copy", due: "", dueDate: "2025-08-06" },
+        { owner: "Bob and Carla", task: "Book the retro", due: "", dueDate: "" },
+        { owner: "Dana", task: "Fix the banner", due: "", dueDate: "" }
+      ]
+    });
+    const events = ics.split("BEGIN:VEVENT").slice(1);
+    expect(events[0]).toContain('ORGANIZER;CN="Anna Smith":mailto:anna@acme.com');
+    expect(events[0]).toContain('ATTENDEE;CN="Bob";ROLE=REQ-PARTICIPANT:mailto:bob@acme.com');
+    expect(events[1]).toContain('ORGANIZER;CN="Bob":mailto:bob@acme.com');
+    expect(events[1]).toContain('ATTENDEE;CN="Carla";ROLE=REQ-PARTICIPANT:mailto:carla@acme.com');
+    expect(events[2]).not.toContain("ORGANIZER");
+  });
+});
@@ -0,0 +1,92 @@
+import { deflateRawSync } from "zlib";
+import { NextRequest } from "next/server";
+import { describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/ingest/route";
+import { CHUNK_CHARS, MAX_UPLOAD_BYTES } from "@/lib/ingest";
+
+// a one-entry ZIP; `declared` is what the central directory claims the entry unpacks to
+function zip(path: string, content: Buffer, declared = content.length): Buffer {
+  const name = Buffer.from(path);
+  const data = deflateRawSync(content);
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(8, 8);
+  local.writeUInt32LE(data.length, 18);
+  local.writeUInt32LE(declared, 22);
+  local.writeUInt16LE(name.length, 26);
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(8, 10);
+  central.writeUInt32LE(data.length, 20);
+  central.writeUInt32LE(declared, 24);
+  central.writeUInt16LE(name.length, 28);
+  central.writeUInt32LE(0, 42);
+  const dirAt = local.length + name.length + data.length;
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(1, 8);
+  eocd.writeUInt16LE(1, 10);
+  eocd.writeUInt32LE(central.length + name.length, 12);
+  eocd.writeUInt32LE(dirAt, 16);
+  return Buffer.concat([local, name, data, central, name, eocd]);
+}
+
+function docx(paragraphs: string[]): string {
+  return `<w:document><w:body>${paragraphs.map(p => `<w:p><w:r><w:t>${p}</w:t></w:r></w:p>`).join("")}</w:body></w:document>`;
+}
+
+function upload(name: string, body: BodyInit, headers: Record<string, string> = {}) {
+  const init = { method: "POST", headers, body, duplex: "half" } as ConstructorParameters<typeof NextRequest>[1];
+  return POST(new NextRequest(`http://localhost/api/ingest?name=${name}`, init));
+}
+
+// no Content-Length, like a chunked upload
+function chunked(bytes: Uint8Array, chunk = 256 * 1024): ReadableStream<Uint8Array> {
+  let at = 0;
+  return new ReadableStream({
+    pull(ctrl) {
+      if (at >= bytes.length) return ctrl.close();
+      ctrl.enqueue(bytes.subarray(at, at + chunk));
+      at += chunk;
+    }
+  });
+}
+
+describe("POST /api/ingest", () => {
+  it("reads a .docx into notes", async () => {
+    const file = zip("word/document.xml", Buffer.from(docx(["Decisions", "Ship v2 on Monday"])));
+    const res = await upload("notes.docx", file);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ format: "docx", notes: "Decisions\nShip v2 on Monday" });
+  });
+
+  it("counts extraction parts at the pipeline's chunk size instead of returning them", async () => {
+    const turn = "Anna: " + "We went through the launch plan again. ".repeat(20);
+    const notes = Array.from({ length: Math.ceil((CHUNK_CHARS * 1.5) / turn.length) }, () => turn).join("\n");
+    const res = await upload("notes.txt", notes);
+    const body = await res.json();
+    expect(body.parts).toBe(2);
+    expect(body).not.toHaveProperty("chunks");
+  });
+
+  it("stops reading a chunked upload past the limit", async () => {
+    const res = await upload("notes.txt", chunked(new Uint8Array(MAX_UPLOAD_BYTES + 256 * 1024).fill(0x61)));
+    expect(res.status).toBe(413);
+  });
+
+  it("refuses a .docx that unpacks past its declared size", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const xml = Buffer.from(docx(["x".repeat(2_000_000)]));
+    const res = await upload("bomb.docx", zip("word/document.xml", xml, 1_000));
+    expect(res.status).toBe(422);
+  });
+
+  it("refuses a .docx that unpacks past the entry limit", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const xml = Buffer.alloc(20 * 1024 * 1024, 0x20);
+    const file = zip("word/document.xml", xml);
+    expect(file.length).toBeLessThan(MAX_UPLOAD_BYTES);
+    const res = await upload("bomb.docx", file);
+    expect(res.status).toBe(422);
+  });
+});
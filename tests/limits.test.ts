@@ -0,0 +1,63 @@
+import { describe, expect, it, vi } from "vitest";
+import { clientIp, limitsConfigFromEnv, rateLimit } from "@/lib/limits";
+
+function req(headers: Record<string, string> = {}) {
+  return new Request("http://localhost/api/generate", { method: "POST", headers });
+}
+
+describe("clientIp", () => {
+  it("ignores forwarding headers without a trusted proxy", () => {
+    expect(clientIp(req({ "x-forwarded-for": "203.0.113.7", "x-real-ip": "203.0.113.8" }))).toBe("direct");
+  });
+
+  it("takes the entry the trusted proxies appended, not what the client sent", () => {
+    const spoofed = req({ "x-forwarded-for": "1.2.3.4, 198.51.100.9" });
+    expect(clientIp(spoofed, 1)).toBe("198.51.100.9");
+    expect(clientIp(req({ "x-forwarded-for": "1.2.3.4, 198.51.100.9, 10.0.0.2" }), 2)).toBe("198.51.100.9");
+    expect(clientIp(req({ "x-forwarded-for": "198.51.100.9" }), 3)).toBe("198.51.100.9");
+  });
+
+  it("falls back to X-Real-IP behind a trusted proxy", () => {
+    expect(clientIp(req({ "x-real-ip": "198.51.100.9" }), 1)).toBe("198.51.100.9");
+  });
+});
+
+describe("rateLimit", () => {
+  const config = { ...limitsConfigFromEnv(), ipPerMinute: 1, ipBurst: 1 };
+
+  it("cannot be reset by rotating X-Forwarded-For", async () => {
+    expect(await rateLimit(req({ "x-forwarded-for": "1.1.1.1" }), "spoof", config)).toBeNull();
+    const res = await rateLimit(req({ "x-forwarded-for": "2.2.2.2" }), "spoof", config);
+    expect(res?.status).toBe(429);
+  });
+
+  it("keeps a bucket per client behind a trusted proxy", async () => {
+    const proxied = { ...config, trustedProxyHops: 1 };
+    expect(await rateLimit(req({ "x-forwarded-for": "9.9.9.9, 198.51.100.1" }), "proxied", proxied)).toBeNull();
+    expect(await rateLimit(req({ "x-forwarded-for": "198.51.100.2" }), "proxied", proxied)).toBeNull();
+    expect((await rateLimit(req({ "x-forwarded-for": "8.8.8.8, 198.51.100.1" }), "proxied", proxied))?.status).toBe(429);
+  });
+
+  it("warns once when every anonymous client lands in the shared bucket", async () => {
+    vi.resetModules();
+    const fresh = await import("@/lib/limits");
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    await fresh.rateLimit(req(), "shared", config);
+    await fresh.rateLimit(req(), "shared", config);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toMatch(/TRUSTED_PROXY_HOPS/);
+  });
+
+  it("charges a batch as many requests, all or none", async () => {
+    const batch = { ...config, ipPerMinute: 3, ipBurst: 3 };
+    expect((await rateLimit(req(), "batch", batch, 4))?.status).toBe(429);
+    expect(await rateLimit(req(), "batch", batch, 3)).toBeNull();
+    expect((await rateLimit(req(), "batch", batch))?.status).toBe(429);
+  });
+
+  it("refuses unknown API keys", async () => {
+    const keyed = { ...config, apiKeys: ["k1"] };
+    expect((await rateLimit(req({ "x-api-key": "nope" }), "keys", keyed))?.status).toBe(401);
+    expect(await rateLimit(req({ authorization: "Bearer k1" }), "keys", keyed)).toBeNull();
+  });
+});
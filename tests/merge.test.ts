@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import type { ExtractedAction, Extraction } from "@/lib/extraction";
+import { mergeExtractions, similar } from "@/lib/merge";
+
+const BASE = new Date("2025-08-01T00:00:00Z"); // a Friday
+
+function action(owner: string, task: string, due = ""): ExtractedAction {
+  return { owner, task, due, dueDate: "", dueFlags: [], rationale: "" };
+}
+
+function part(over: Partial<Extraction>): Extraction {
+  return { summary: "", context: "", decisions: [], actions: [], questions: [], previous: [], ...over };
+}
+
+/* ---------- similar ---------- */
+describe("similar", () => {
+  it.each([
+    ["Send the deck to the client", "send deck to client"],
+    ["Update the docs", "Update the docs."],
+    ["Send the pricing deck to the client", "Send deck to client"]
+  ])("matches “%s” and “%s”", (a, b) => {
+    expect(similar(a, b)).toBe(true);
+  });
+
+  it.each([
+    ["Fix login", "Fix login page timeout on mobile"],
+    ["Send Q3 report to finance", "Send Q4 report to finance"],
+    ["Book venue for offsite", "Book caterer for offsite"],
+    ["Update docs", ""]
+  ])("keeps “%s” and “%s” apart", (a, b) => {
+    expect(similar(a, b)).toBe(false);
+  });
+});
+
+/* ---------- mergeExtractions ---------- */
+describe("mergeExtractions", () => {
+  it("drops repeated decisions and questions, keeping the longer wording", () => {
+    const merged = mergeExtractions(
+      [
+        part({ decisions: ["Ship v2 Monday"], questions: ["Legal review needed?"] }),
+        part({ decisions: ["Ship v2 on Monday morning", "Fix login page timeout on mobile"], questions: ["Legal review needed?"] })
+      ],
+      "medium",
+      BASE
+    );
+    expect(merged.decisions).toEqual(["Ship v2 on Monday morning", "Fix login page timeout on mobile"]);
+    expect(merged.questions).toEqual(["Legal review needed?"]);
+  });
+
+  it("keeps distinct actions that share a prefix", () => {
+    const merged = mergeExtractions(
+      [part({ actions: [action("Bob", "Fix login")] }), part({ actions: [action("Bob", "Fix login page timeout on mobile")] })],
+      "medium",
+      BASE
+    );
+    expect(merged.actions.map(a => a.task)).toEqual(["Fix login", "Fix login page timeout on mobile"]);
+  });
+
+  it("combines the same action and keeps the later deadline", () => {
+    const merged = mergeExtractions(
+      [
+        part({ actions: [action("Anna", "Update the docs", "by 15 August")] }),
+        part({ actions: [action("", "update docs", "Friday")] })
+      ],
+      "medium",
+      BASE
+    );
+    expect(merged.actions).toMatchObject([{ owner: "Anna", task: "Update the docs", due: "by 15 August" }]);
+  });
+
+  it("takes a later part's deadline when it is later or cannot be compared", () => {
+    const merged = mergeExtractions(
+      [
+        part({ actions: [action("Anna", "Update the docs", "Monday"), action("Bob", "Send the deck", "soon")] }),
+        part({ actions: [action("Anna", "Update the docs", "next Wednesday"), action("Bob", "Send the deck", "by Tuesday")] })
+      ],
+      "medium",
+      BASE
+    );
+    expect(merged.actions.map(a => a.due)).toEqual(["next Wednesday", "by Tuesday"]);
+  });
+
+  it("returns a single part unchanged", () => {
+    const only = part({ summary: "One part." });
+    expect(mergeExtractions([only])).toBe(only);
+  });
+});
@@ -0,0 +1,72 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { extractOffline } from "@/lib/offline";
+
+// real-world note shapes, one file each in fixtures/offline; what the extractor
+// must find in them is spelled out here so a change in behaviour reads as a diff
+type Expected = {
+  decisions: string[];
+  actions: [owner: string, task: string, due: string][];
+  questions: string[];
+};
+
+const PARTICIPANTS = "Anna Smith, Bob Lee, Carla, Dana, Raj, Mei, Ravi, Priya";
+
+const CORPUS: Record<string, Expected> = {
+  "markdown-headings.md": {
+    decisions: ["Move the search rewrite to sprint 15", "Keep Thursday as release day"],
+    actions: [
+      ["Dana", "Fix the flaky checkout test", "by Thursday"],
+      ["Raj", "Update the release checklist", ""],
+      ["Mei", "Write the migration guide before the release", ""]
+    ],
+    questions: ["Do we still need the legacy export?", "Who owns on-call during the holidays?"]
+  },
+  "bold-labels.txt": {
+    decisions: ["Go live on the 15th with the EU region only", "Acme will use SSO from day one"],
+    actions: [
+      ["Bob Lee", "Send the SSO metadata to Priya", "tomorrow"],
+      ["Anna Smith", "Schedule the admin training", "next week"]
+    ],
+    questions: ["Confirm the data retention period?", "Priya's security review is still pending"]
+  },
+  "markers.txt": {
+    decisions: ["We will retire the old Jenkins box in October"],
+    actions: [
+      ["Carol", "Add alerting for disk usage", "by Friday"],
+      ["Bob Lee", "Rotate the staging credentials", ""],
+      ["Dana", "Book the DR drill", "next Tuesday"]
+    ],
+    questions: ["Is the backup bucket encrypted at rest?"]
+  },
+  "transcript.txt": {
+    decisions: ["Great. We agreed last week to launch pricing on the 12th, so that stays."],
+    actions: [
+      ["Bob Lee", "Send the final copy to legal", "by Wednesday"],
+      ["Carla", "Check whether the partner discounts are ready", ""]
+    ],
+    questions: ["Do we have sign-off from finance on the annual plan?", "Not sure yet, it's pending with their team."]
+  },
+  "plain-lines.txt": {
+    decisions: ["Agreed to extend an offer to candidate B"],
+    actions: [["TBD", "Send feedback to the recruiters", "by end of day"]],
+    questions: ["Need to confirm the salary band with HR", "Unclear whether we can open a second headcount this quarter"]
+  },
+  "nested.md": {
+    decisions: ["We decided to drop PayPal support"],
+    actions: [["Ravi", "Share the revised timeline", "by next Monday"]],
+    questions: ["Is Stripe Tax worth the cost?"]
+  }
+};
+
+describe("extractOffline corpus", () => {
+  it.each(Object.entries(CORPUS))("%s", (file, expected) => {
+    const notes = readFileSync(path.join(__dirname, "fixtures", "offline", file), "utf8");
+    const data = extractOffline({ notes, date: "2025-08-01", participants: PARTICIPANTS, length: "medium" });
+
+    expect(data.decisions).toEqual(expected.decisions);
+    expect(data.actions.map(a => [a.owner, a.task, a.due])).toEqual(expected.actions);
+    expect(data.questions).toEqual(expected.questions);
+  });
+});
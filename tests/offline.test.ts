@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { extractOffline } from "@/lib/offline";
+
+describe("extractOffline", () => {
+  it("sorts bullets into sections by heading, owner and due phrase", () => {
+    const notes = [
+      "Weekly sync",
+      "Decisions:",
+      "- Ship v2 on Monday",
+      "Action items:",
+      "- [ ] Anna: update the pricing page by Friday",
+      "- Bob will send the deck to the client tomorrow",
+      "Open questions:",
+      "- Do we need legal review?"
+    ].join("\n");
+    const data = extractOffline({ notes, date: "2025-08-01", participants: "Anna, Bob", length: "medium" });
+
+    expect(data.summary).toBe("Weekly sync.");
+    expect(data.decisions).toEqual(["Ship v2 on Monday"]);
+    expect(data.actions).toMatchObject([
+      { owner: "Anna", task: "Update the pricing page", due: "by Friday" },
+      { owner: "Bob", task: "Send the deck to the client", due: "tomorrow" }
+    ]);
+    expect(data.questions).toEqual(["Do we need legal review?"]);
+  });
+
+  it("reads speaker turns and first-person commitments in transcripts", () => {
+    const notes = [
+      "Anna: I'll draft the announcement by Wednesday.",
+      "Bob: sounds good, we decided to keep the launch date.",
+      "Anna: is the budget approved?"
+    ].join("\n");
+    const data = extractOffline({ notes, date: "2025-08-01", length: "medium" });
+
+    expect(data.actions).toMatchObject([{ owner: "Anna", task: "Draft the announcement", due: "by Wednesday" }]);
+    expect(data.decisions).toEqual(["Sounds good, we decided to keep the launch date."]);
+    expect(data.questions).toEqual(["Is the budget approved?"]);
+  });
+
+  it("does not repeat an action written twice", () => {
+    const notes = "- Anna to update the docs\n- anna to update the docs.";
+    expect(extractOffline({ notes, participants: "Anna", length: "medium" }).actions).toHaveLength(1);
+  });
+
+  it("returns empty sections for empty notes", () => {
+    expect(extractOffline({ notes: "", length: "short" })).toEqual({
+      summary: "",
+      context: "",
+      decisions: [],
+      actions: [],
+      questions: [],
+      previous: []
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { acceptSuggestion, checkWithRules } from "@/lib/proofread";
+
+function rules(text: string, language: Parameters<typeof checkWithRules>[1] = "en") {
+  return checkWithRules(text, language).map(s => [s.rule, s.original, s.replacements[0]]);
+}
+
+/* ---------- built-in rules ---------- */
+describe("checkWithRules", () => {
+  it.each([
+    ["REPEATED_WORD", "Please send the the notes.", "the the", "the"],
+    ["DOUBLE_SPACE", "Thanks  all.", "  ", " "],
+    ["SPACE_BEFORE_PUNCTUATION", "Thanks , all.", " ", ""],
+    ["MISSING_SPACE_AFTER_PUNCTUATION", "Anna,Bob and Carla", ",", ", "],
+    ["REPEATED_PUNCTUATION", "Done!!", "!!", "!"],
+    ["EN_COULD_OF", "We could of shipped.", "could of", "could have"],
+    ["EN_TYPO", "Teh plan is final.", "Teh", "The"]
+  ])("%s", (rule, text, original, fix) => {
+    expect(rules(text)).toEqual([[rule, original, fix]]);
+  });
+
+  describe("EN_A_VS_AN", () => {
+    it.each(["a action item", "a email", "a idea", "a open question", "a update", "a umbrella", "a unclear owner", "a hour", "a honest answer"])(
+      "flags “%s”",
+      text => {
+        expect(rules(text)).toEqual([["EN_A_VS_AN", "a ", "an "]]);
+      }
+    );
+
+    it.each([
+      "a user",
+      "a unique id",
+      "a unit test",
+      "a usual slot",
+      "a union rep",
+      "a universal fix",
+      "a one-off",
+      "a one-time fee",
+      "a once-a-week sync",
+      "a European launch",
+      "a useful note",
+      "a big update"
+    ])("leaves “%s” alone", text => {
+      expect(rules(text)).toEqual([]);
+    });
+
+    it("keeps the capital", () => {
+      expect(rules("A update follows.")).toEqual([["EN_A_VS_AN", "A ", "An "]]);
+    });
+  });
+
+  it("applies English-only rules to English text only", () => {
+    expect(rules("a email, could of", "de")).toEqual([]);
+    // French puts a space before ; ! ?
+    expect(rules("Merci !", "fr")).toEqual([]);
+    expect(rules("Danke !", "de")).toEqual([["SPACE_BEFORE_PUNCTUATION", " ", ""]]);
+  });
+
+  it("reports suggestions in reading order without overlaps", () => {
+    const found = checkWithRules("Teh the the plan,,  is ready");
+    expect(found.map(s => s.rule)).toEqual(["EN_TYPO", "REPEATED_WORD", "REPEATED_PUNCTUATION", "DOUBLE_SPACE"]);
+    expect(found.map(s => s.offset)).toEqual([0, 4, 16, 18]);
+  });
+});
+
+/* ---------- acceptSuggestion ---------- */
+describe("acceptSuggestion", () => {
+  it("applies one fix and shifts the later ones", () => {
+    const text = "Teh plan is is final.";
+    const found = checkWithRules(text);
+    const typo = found.find(s => s.rule === "EN_TYPO")!;
+    const next = acceptSuggestion(text, found, typo.id, "The");
+    expect(next.text).toBe("The plan is is final.");
+    expect(next.suggestions).toHaveLength(1);
+    const { offset, length } = next.suggestions[0];
+    expect(next.text.slice(offset, offset + length)).toBe("is is");
+  });
+
+  it("leaves text edited since the check alone", () => {
+    const found = checkWithRules("Teh plan.");
+    const next = acceptSuggestion("A new plan.", found, found[0].id, "The");
+    expect(next).toEqual({ text: "A new plan.", suggestions: [] });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from "vitest";
+import { createRedactor, redactionPolicyFromEnv, type RedactionPolicy } from "@/lib/redact";
+
+const PII: RedactionPolicy = { detectors: true, terms: [] };
+
+function mask(text: string, policy = PII) {
+  return createRedactor(policy).mask(text);
+}
+
+/* ---------- detectors ---------- */
+describe("createRedactor detectors", () => {
+  it("masks emails, IBANs, card numbers and labelled accounts", () => {
+    expect(mask("Mail sales@vendor.example today")).toBe("Mail [EMAIL_1] today");
+    expect(mask("Pay to GB82 WEST 1234 5698 7654 32 please")).toBe("Pay to [IBAN_1] please");
+    expect(mask("Card 4111 1111 1111 1111 on file")).toBe("Card [CARD_1] on file");
+    expect(mask("Account no. 12345678 is frozen")).toBe("Account no. [ACCOUNT_1] is frozen");
+  });
+
+  it("leaves card-length numbers that fail the Luhn check", () => {
+    expect(mask("Order 4111 1111 1111 1112 shipped")).toBe("Order 4111 1111 1111 1112 shipped");
+  });
+
+  it.each([
+    ["an international number", "Escalation line is +44 20 7946 0958.", "Escalation line is [PHONE_1]."],
+    ["an area code in brackets", "Office (020) 7946 0958", "Office [PHONE_1]"],
+    ["three digit groups", "Ring 020 7946 0958 after 5", "Ring [PHONE_1] after 5"],
+    ["a number after a phone cue", "Call Anna on 07700900123 today", "Call Anna on [PHONE_1] today"],
+    ["a number after tel:", "tel: 7946-0958", "tel: [PHONE_1]"]
+  ])("masks %s", (_, text, masked) => {
+    expect(mask(text)).toBe(masked);
+  });
+
+  it.each([
+    ["a time range", "Meet at 10.30-11.45 in room 4"],
+    ["a time range with colons", "Workshop 09:00 - 12:30"],
+    ["an amount with thousand separators", "Revenue 12 500 000 this year"],
+    ["an amount with dots", "Budget 1.250.000 approved"],
+    ["a ticket id", "See PROJ-1234567 for details"],
+    ["a date", "Due 2025-08-01 or 01/08/2025"],
+    ["a bare number", "Order 1234567 shipped"],
+    ["a version", "Upgrade to 12.4.1"]
+  ])("leaves %s alone", (_, text) => {
+    expect(mask(text)).toBe(text);
+  });
+});
+
+/* ---------- placeholders ---------- */
+describe("createRedactor placeholders", () => {
+  it("gives the same value the same placeholder and counts it", () => {
+    const r = createRedactor(PII);
+    const out = r.mask("anna@example.com, bob@example.com, ANNA@example.com");
+    expect(out).toBe("[EMAIL_1], [EMAIL_2], [EMAIL_1]");
+    expect(r.audit()).toMatchObject({
+      applied: true,
+      total: 3,
+      counts: { email: 3 },
+      items: [
+        { placeholder: "[EMAIL_1]", value: "anna@example.com", count: 2 },
+        { placeholder: "[EMAIL_2]", value: "bob@example.com", count: 1 }
+      ]
+    });
+  });
+
+  it("masks terms longest first and only as whole words", () => {
+    const r = createRedactor({ detectors: false, terms: ["Falcon", "Project Falcon X"] });
+    expect(r.mask("Project Falcon X replaces Falcon, not Falconry")).toBe("[TERM_1] replaces [TERM_2], not Falconry");
+  });
+
+  it("restores placeholders the model mangled, inside nested values", () => {
+    const r = createRedactor(PII);
+    r.mask("Escalation line is +44 20 7946 0958, mail sales@vendor.example");
+    expect(r.restore("Call [PHONE_1] or email_1")).toBe("Call +44 20 7946 0958 or sales@vendor.example");
+    expect(r.restoreDeep({ actions: [{ task: "Email [EMAIL_1]", due: "" }], n: 1 })).toEqual({
+      actions: [{ task: "Email sales@vendor.example", due: "" }],
+      n: 1
+    });
+    expect(r.restore("[PHONE_9] stays")).toBe("[PHONE_9] stays");
+  });
+});
+
+/* ---------- policy ---------- */
+describe("redactionPolicyFromEnv", () => {
+  it("turns the detectors off with REDACT_PII=off and splits the terms", () => {
+    expect(redactionPolicyFromEnv().detectors).toBe(true);
+    vi.stubEnv("REDACT_PII", "off");
+    vi.stubEnv("REDACT_TERMS", "Falcon, Acme Corp\nX");
+    expect(redactionPolicyFromEnv()).toEqual({ detectors: false, terms: ["Falcon", "Acme Corp"] });
+  });
+});
@@ -0,0 +1,119 @@
+import { NextRequest } from "next/server";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/send/route";
+import { sendMail, type SmtpConfig } from "@/lib/smtp";
+import { startSmtpSink } from "./helpers/smtp-sink";
+
+let sink: Awaited<ReturnType<typeof startSmtpSink>>;
+
+beforeAll(async () => {
+  sink = await startSmtpSink();
+});
+afterAll(() => sink.close());
+
+/* ---------- SMTP client ---------- */
+describe("sendMail", () => {
+  const config = (): SmtpConfig => ({
+    host: "127.0.0.1",
+    port: sink.port,
+    security: "none",
+    user: "relay-user",
+    pass: "secret",
+    hostname: "test.local",
+    rejectUnauthorized: true,
+    timeoutMs: 5_000
+  });
+
+  it("authenticates, dot-stuffs the body and reports refused recipients", async () => {
+    const before = sink.sessions.length;
+    const r = await sendMail(
+      config(),
+      { from: "team@example.com", recipients: ["a@example.com", "reject@example.com"] },
+      "Subject: hi\r\n\r\n.leading dot\r\nend\r\n"
+    );
+    const session = sink.sessions[before];
+
+    expect(r.response).toMatch(/^250 /);
+    expect(r.rejected).toEqual(["reject@example.com"]);
+    expect(session.commands).toContain(`AUTH PLAIN ${Buffer.from("\0relay-user\0secret").toString("base64")}`);
+    expect(session.commands).toContain("MAIL FROM:<team@example.com>");
+    expect(session.data).toContain("\r\n..leading dot\r\n");
+  });
+
+  it("throws with the reply when every recipient is refused", async () => {
+    await expect(sendMail(config(), { from: "team@example.com", recipients: ["reject@example.com"] }, "x")).rejects.toThrow(
+      /^SMTP RCPT TO failed/
+    );
+  });
+});
+
+/* ---------- POST /api/send ---------- */
+describe("POST /api/send", () => {
+  const MESSAGE = { to: "anna@example.com", bcc: "hidden@example.com", subject: "Weekly sync — follow-up", text: "Hi all,\nThanks!" };
+
+  function post(body: unknown, key?: string) {
+    return POST(
+      new NextRequest("http://localhost/api/send", {
+        method: "POST",
+        headers: { "content-type": "application/json", ...(key ? { "x-api-key": key } : {}) },
+        body: JSON.stringify(body)
+      })
+    );
+  }
+
+  beforeEach(() => {
+    vi.stubEnv("SMTP_HOST", "127.0.0.1");
+    vi.stubEnv("SMTP_PORT", String(sink.port));
+    vi.stubEnv("SMTP_SECURE", "none");
+    vi.stubEnv("SMTP_FROM", "notes@example.com");
+    vi.stubEnv("API_KEYS", "key-one,key-two");
+  });
+
+  it("is off without API keys on the server", async () => {
+    vi.stubEnv("API_KEYS", "");
+    expect((await post(MESSAGE)).status).toBe(501);
+    expect((await post(MESSAGE, "anything")).status).toBe(501);
+  });
+
+  it("refuses callers without a valid key, before anything is previewed", async () => {
+    expect((await post(MESSAGE)).status).toBe(401);
+    expect((await post(MESSAGE, "guess")).status).toBe(401);
+  });
+
+  it("previews, then sends once with the confirm token", async () => {
+    const preview = await post(MESSAGE, "key-one");
+    expect(preview.status).toBe(200);
+    const { confirmToken, preview: shown } = await preview.json();
+    expect(shown).toMatchObject({ from: "notes@example.com", to: ["anna@example.com"], bcc: ["hidden@example.com"], recipients: 2 });
+
+    const before = sink.sessions.length;
+    const sent = await post({ ...MESSAGE, confirmToken }, "key-one");
+    expect(sent.status).toBe(200);
+    expect((await sent.json()).sent).toBe(true);
+
+    const session = sink.sessions[before];
+    expect(session.commands).toEqual(expect.arrayContaining(["RCPT TO:<anna@example.com>", "RCPT TO:<hidden@example.com>"]));
+    expect(session.data).toMatch(/^To: anna@example\.com$/m);
+    expect(session.data).not.toMatch(/^Bcc:/im);
+
+    const again = await post({ ...MESSAGE, confirmToken }, "key-one");
+    expect(again.status).toBe(409);
+  });
+
+  it("does not accept a token with another key or a changed message", async () => {
+    const { confirmToken } = await (await post(MESSAGE, "key-one")).json();
+    expect((await post({ ...MESSAGE, confirmToken }, "key-two")).status).toBe(409);
+    expect((await post({ ...MESSAGE, subject: "Something else", confirmToken }, "key-one")).status).toBe(409);
+  });
+
+  it("answers 502 when the relay is unreachable and keeps the token usable", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    // the clock is frozen: the same message would get the token already spent above
+    const message = { ...MESSAGE, subject: "Retry after an outage" };
+    const { confirmToken } = await (await post(message, "key-one")).json();
+    vi.stubEnv("SMTP_PORT", "1"); // nothing listens there
+    expect((await post({ ...message, confirmToken }, "key-one")).status).toBe(502);
+    vi.stubEnv("SMTP_PORT", String(sink.port));
+    expect((await post({ ...message, confirmToken }, "key-one")).status).toBe(200);
+  });
+});
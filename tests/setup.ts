@@ -0,0 +1,15 @@
+// tests/setup.ts
+// Every test runs on the same "today", so relative due dates, overdue flags
+// and "(today)" intros in the goldens do not move with the calendar.
+import { afterEach, beforeEach, vi } from "vitest";
+
+export const TODAY = new Date("2025-08-01T09:00:00Z"); // a Friday
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(TODAY);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
@@ -0,0 +1,82 @@
+import { NextRequest } from "next/server";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { GET, POST } from "@/app/api/trackers/route";
+import { startHttpStub } from "./helpers/http-stub";
+
+let hook: Awaited<ReturnType<typeof startHttpStub>>;
+let status = 200;
+
+beforeAll(async () => {
+  hook = await startHttpStub(() => ({ status, json: { ok: status < 400 } }));
+});
+afterAll(() => hook.close());
+
+const BODY = {
+  title: "Weekly sync",
+  date: "2025-08-01",
+  actions: [{ owner: "Anna Smith", task: "Update the docs", due: "Friday", dueDate: "2025-08-08", dueFlags: [], rationale: "" }],
+  owners: { bob: "bjones" }
+};
+
+function post(body: unknown, key?: string) {
+  return POST(
+    new NextRequest("http://localhost/api/trackers", {
+      method: "POST",
+      headers: { "content-type": "application/json", ...(key ? { authorization: `Bearer ${key}` } : {}) },
+      body: JSON.stringify(body)
+    })
+  );
+}
+
+beforeEach(() => {
+  status = 200;
+  hook.requests.length = 0;
+  vi.stubEnv("TRACKER_WEBHOOK_URL", `${hook.url}/issues`);
+  vi.stubEnv("TRACKER_WEBHOOK_TOKEN", "hook-secret");
+  vi.stubEnv("TRACKER_OWNER_MAP", '{"Anna Smith":"asmith"}');
+  vi.stubEnv("API_KEYS", "key-one");
+});
+
+describe("/api/trackers", () => {
+  it("reports the webhook only when API keys can gate it", async () => {
+    expect(await (await GET()).json()).toEqual({ webhook: true });
+    vi.stubEnv("API_KEYS", "");
+    expect(await (await GET()).json()).toEqual({ webhook: false });
+  });
+
+  it("never reaches the webhook without a valid key", async () => {
+    expect((await post(BODY)).status).toBe(401);
+    expect((await post(BODY, "guess")).status).toBe(401);
+    vi.stubEnv("API_KEYS", "");
+    expect((await post(BODY, "key-one")).status).toBe(501);
+    expect(hook.requests).toHaveLength(0);
+  });
+
+  it("forwards the issues with the webhook token", async () => {
+    const res = await post(BODY, "key-one");
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ sent: 1 });
+
+    const [sent] = hook.requests;
+    expect(sent).toMatchObject({ method: "POST", path: "/issues" });
+    expect(sent.headers.authorization).toBe("Bearer hook-secret");
+    const payload = JSON.parse(sent.body);
+    expect(payload.source).toBe("notes-to-email");
+    expect(payload.meeting).toEqual({ title: "Weekly sync", date: "2025-08-01" });
+    expect(payload.issues).toMatchObject([{ title: "Update the docs", owner: "Anna Smith", assignee: "asmith", dueDate: "2025-08-08" }]);
+  });
+
+  it("answers 502 when the webhook fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    status = 500;
+    const res = await post(BODY, "key-one");
+    expect(res.status).toBe(502);
+    expect((await res.json()).error).toBe("Tracker webhook failed (500).");
+  });
+
+  it("is rate-limited per key", async () => {
+    vi.stubEnv("RATE_LIMIT_KEY_PER_MINUTE", "1");
+    expect((await post(BODY, "key-one")).status).toBe(200);
+    expect((await post(BODY, "key-one")).status).toBe(429);
+  });
+});
@@ -0,0 +1,50 @@
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/v1/generate/route";
+
+// nothing here may reach a model
+vi.mock("@/lib/llm", async importOriginal => ({
+  ...(await importOriginal<typeof import("@/lib/llm")>()),
+  createProvider: async () => {
+    throw new Error("no model call expected");
+  }
+}));
+
+const NOTES = "- Decided: ship v2 on Monday\n- Anna to update the docs by Friday";
+
+function post(body: unknown) {
+  return POST(
+    new NextRequest("http://localhost/api/v1/generate", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(body)
+    })
+  );
+}
+
+const batch = (n: number) => ({ items: Array.from({ length: n }, (_, i) => ({ id: `m${i}`, notes: NOTES })) });
+
+describe("POST /api/v1/generate batches", () => {
+  beforeEach(() => {
+    vi.stubEnv("RATE_LIMIT_PER_MINUTE", "2");
+  });
+
+  it("counts every model-backed item against the client's rate limit", async () => {
+    vi.stubEnv("LLM_PROVIDER", "openai");
+    vi.stubEnv("OPENAI_API_KEY", "recorded");
+    const res = await post(batch(3));
+    expect(res.status).toBe(429);
+    expect(res.headers.get("Retry-After")).toBeTruthy();
+  });
+
+  it("charges offline batches as one request", async () => {
+    const res = await post(batch(3));
+    expect(res.status).toBe(200);
+    const data = await res.json();
+    expect(data.results.map((r: { id: string; ok: boolean }) => [r.id, r.ok])).toEqual([
+      ["m0", true],
+      ["m1", true],
+      ["m2", true]
+    ]);
+  });
+});
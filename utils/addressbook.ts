@@ -0,0 +1,104 @@
+// utils/addressbook.ts
+// The user's address book ("Anna Smith = anna@acme.com" per line) and saved
+// recipient groups, plus the lookups that tie them to the participants field
+// and to action owners. Runs in the browser and on Node.
+import { z } from "zod";
+import { isValidEmail, recipientList } from "@/utils/recipients";
+
+export type Contact = { name: string; email: string };
+
+const LINE_RE = /^\s*(.+?)\s*(?:[=:]\s*<?|<)\s*([^\s<>]+@[^\s<>]+?)\s*>?\s*$/;
+const ADDRESS_RE = /^(.*?)\s*<([^<>\s]+)>$/;
+
+export function parseAddressBook(text: string): Contact[] {
+  const out: Contact[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const m = line.match(LINE_RE);
+    if (m && isValidEmail(m[2])) out.push({ name: m[1].replace(/^"|"$/g, "").trim(), email: m[2] });
+  }
+  return out;
+}
+
+/** Full name, address or local part; a first name only when it is unambiguous. */
+export function findContact(book: Contact[], name: string): Contact | null {
+  const n = name.replace(/^@/, "").trim().toLowerCase();
+  if (!n) return null;
+  const exact = book.find(c => c.name.toLowerCase() === n || c.email.toLowerCase() === n || c.email.toLowerCase().split("@")[0] === n);
+  if (exact) return exact;
+  const first = book.filter(c => c.name.toLowerCase().split(/\s+/)[0] === n);
+  return first.length === 1 ? first[0] : null;
+}
+
+/* ---------- participants ---------- */
+export type Participant = { name: string; email?: string; fromBook: boolean };
+
+// "Anna, Bob Lee <bob@x.com>, carol@y.com" → one entry each, addresses filled in from the book
+export function resolveParticipants(raw: string, book: Contact[]): Participant[] {
+  return raw
+    .split(/[,;\n]+/)
+    .map(p => p.trim())
+    .filter(Boolean)
+    .map(p => {
+      const typed = p.match(ADDRESS_RE);
+      if (typed && isValidEmail(typed[2])) return { name: typed[1].replace(/^"|"$/g, "").trim() || typed[2], email: typed[2], fromBook: false };
+      if (isValidEmail(p)) return { name: p, email: p, fromBook: false };
+      const hit = findContact(book, p);
+      return hit ? { name: p, email: hit.email, fromBook: true } : { name: p, fromBook: false };
+    });
+}
+
+/** Participants as "Name <email>" where known, for exports that use addresses (.ics). */
+export function participantsWithAddresses(raw: string, book: Contact[]): string {
+  return resolveParticipants(raw, book)
+    .map(p => (p.email && p.email !== p.name ? `${p.name} <${p.email}>` : p.name))
+    .join(", ");
+}
+
+/* ---------- action owners ---------- */
+export function ownerNames(owner: string): string[] {
+  return owner
+    .split(/\s*(?:,|&|\/|\band\b)\s*/)
+    .map(n => n.replace(/^@/, "").trim())
+    .filter(n => n && n.toUpperCase() !== "TBD");
+}
+
+/** Owners found neither in the address book nor as a participant with an address. */
+export function unknownOwners(actions: { owner: string }[], book: Contact[], participants = ""): { name: string; count: number }[] {
+  const known = [...book, ...resolveParticipants(participants, []).flatMap(p => (p.email ? [{ name: p.name, email: p.email }] : []))];
+  const counts = new Map<string, { name: string; count: number }>();
+  for (const a of actions) {
+    for (const name of ownerNames(a.owner)) {
+      if (findContact(known, name)) continue;
+      const key = name.toLowerCase();
+      const e = counts.get(key) ?? { name, count: 0 };
+      e.count++;
+      counts.set(key, e);
+    }
+  }
+  return [...counts.values()];
+}
+
+/* =========================
+   Recipient groups
+   ========================= */
+export const recipientGroupSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  to: z.string().max(5_000).default(""),
+  cc: z.string().max(5_000).default(""),
+  bcc: z.string().max(5_000).default("")
+});
+
+export type RecipientGroup = z.infer<typeof recipientGroupSchema>;
+
+/** Adds addresses not already in the field (case-insensitive); keeps what was typed. */
+export function addRecipients(current: string, add: string[]): string {
+  const have = new Set(recipientList(current).map(e => e.toLowerCase()));
+  const fresh = add.filter(e => {
+    const k = e.toLowerCase();
+    if (have.has(k)) return false;
+    have.add(k);
+    return true;
+  });
+  if (!fresh.length) return current;
+  return [current.trim().replace(/[,;]\s*$/, ""), ...fresh].filter(Boolean).join(", ");
+}
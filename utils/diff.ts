@@ -0,0 +1,28 @@
+// utils/diff.ts
+// Line diff (LCS) for showing what a tone/length switch changed in the body.
+
+export type DiffLine = { kind: "same" | "add" | "del"; text: string };
+
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const out: DiffLine[] = [];
+  let i = 0, j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) { out.push({ kind: "same", text: a[i] }); i++; j++; }
+    else if (lcs[i + 1][j] >= lcs[i][j + 1]) { out.push({ kind: "del", text: a[i] }); i++; }
+    else { out.push({ kind: "add", text: b[j] }); j++; }
+  }
+  while (i < a.length) out.push({ kind: "del", text: a[i++] });
+  while (j < b.length) out.push({ kind: "add", text: b[j++] });
+  return out;
+}
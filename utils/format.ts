@@ -1,132 +1,300 @@
 // utils/format.ts
+import { formatDate, parseMeetingDate, toISODate, type DueFlag } from "@/lib/dates";
+import { fillPlaceholders, localizePreset, type EmailTemplate, type SectionId, type Sender } from "@/lib/templates";
+import { localeFor, strings, type EmailStrings, type Language } from "@/lib/i18n";
 
-type Action = { owner: string; task: string; due: string };
+export type Action = {
+  owner: string;
+  task: string;
+  due: string; // as written in the notes ("by Fri")
+  dueDate?: string; // normalized ISO date, "" when unresolved
+  dueFlags?: DueFlag[];
+  rationale?: string;
+};
 
-function formatWhen(dateStr?: string): string | null {
+/** An action carried over from the previous meeting in a series. */
+export type ActionStatus = "done" | "in-progress" | "open";
+export type PreviousAction = Action & {
+  status: ActionStatus;
+  note?: string; // evidence from the new notes, e.g. "deck sent Tuesday"
+};
+
+type Length = "short" | "medium" | "long";
+
+// Short emails cap each list and point at what was left out
+const SHORT_CAP = { points: 4, actions: 5 };
+
+function firstLine(text: string, max = 160): string {
+  const line = text.trim().split(/\r?\n/)[0] ?? "";
+  const sentence = line.match(/^.+?[.!?](?=\s|$)/)?.[0] ?? line;
+  return sentence.length > max ? sentence.slice(0, max - 1).trimEnd() + "…" : sentence;
+}
+
+function capped(items: string[], cap: number, S: EmailStrings): string[] {
+  if (items.length <= cap) return items;
+  return [...items.slice(0, cap), S.more(items.length - cap)];
+}
+
+export function formatWhen(dateStr?: string, locale?: string): string | null {
   if (!dateStr) return null;
   const s = dateStr.trim();
   if (!s) return null;
 
-  // Try parsing ISO (YYYY-MM-DD) or free text; if parse fails, use the raw string
-  const d = new Date(s);
-  if (!isNaN(d.getTime())) {
-    // e.g., "1 Aug 2025"
-    return d.toLocaleDateString(undefined, {
-      day: "numeric",
-      month: "short",
-      year: "numeric",
-    });
-  }
-  // If the browser can't parse it, just show what the user entered
-  return s;
+  // ISO (YYYY-MM-DD) or free text, e.g. "1 Aug 2025"; if parse fails, use the raw string
+  const d = parseMeetingDate(s);
+  return d ? formatDate(toISODate(d), locale) : s;
 }
 
 function introLine(opts: {
   tone: "concise" | "formal" | "friendly" | "persuasive" | "casual";
   title?: string;
   date?: string;
+  locale?: string;
+  language?: Language;
 }) {
-  const t = opts.title?.trim();
-  const when = formatWhen(opts.date) ?? "today";
-  switch (opts.tone) {
-    case "formal":
-      return `The key takeaways from the "${t ?? "meeting"}" session held on ${when} are summarised below.`;
-    case "friendly":
-      return `Thanks for joining "${t ?? "our meeting"}" on ${when}. Here’s a clear recap and what’s next.`;
-    case "persuasive":
-      return `Following "${t ?? "the meeting"}" on ${when}, here’s where we landed and what we need to move forward.`;
-    case "casual":
-      return `Hey folks — quick recap from "${t ?? "today’s chat"}" (${when}).`;
-    case "concise":
-    default:
-      return `Here’s a quick follow-up from "${t ?? "the meeting"}" (${when}).`;
-  }
+  const S = strings(opts.language);
+  const when = formatWhen(opts.date, opts.locale) ?? S.today;
+  return (S.intro[opts.tone] ?? S.intro.concise)(opts.title?.trim(), when);
 }
 
-function signoffFor(tone: "concise" | "formal" | "friendly" | "persuasive" | "casual") {
-  switch (tone) {
-    case "formal": return "Best regards,";
-    case "persuasive": return "Thanks in advance,";
-    case "casual": return "Cheers,";
-    case "friendly": return "Thanks so much,";
-    case "concise":
-    default: return "Thanks!";
-  }
+function signoffFor(tone: "concise" | "formal" | "friendly" | "persuasive" | "casual", language?: Language) {
+  const S = strings(language);
+  return S.signoff[tone] ?? S.signoff.concise;
 }
 
-export function composeEmail(opts: {
+export type ComposeOptions = {
   title?: string;
   date?: string;
   participants?: string; // ← will always render an Attendees line (with '—' if blank)
   audience: "internal" | "client" | "stakeholder";
   tone: "concise" | "formal" | "friendly" | "persuasive" | "casual";
   type: "summary" | "follow-up" | "action-only";
+  length?: Length; // defaults to "medium"
   summary: string;
+  context?: string; // background paragraph(s), rendered for "long" only
   decisions: string[];
   actions: Action[];
   questions: string[];
-}) {
-  const greeting =
-    opts.audience === "client" ? "Hi team," :
-    opts.audience === "stakeholder" ? "Hello," :
-    "Hi all,";
+  previous?: PreviousAction[]; // last meeting's actions with their status
+  locale?: string; // date rendering; falls back to the output language's locale
+  language?: Language; // output language for all fixed copy, defaults to "en"
+  template?: EmailTemplate; // validated with templateSchema
+  sender?: Sender; // replaces the "{your name}" placeholder
+};
 
-  const parts: string[] = [];
+/* ---------- structured layout (shared by the text and HTML renderers) ---------- */
+export type EmailBlock = { id: SectionId } & (
+  | { kind: "paragraph"; heading?: string; text: string }
+  | { kind: "list"; heading: string; items: string[] }
+  | { kind: "actions"; heading: string; actions: Action[]; more: number; rationale: boolean }
+  | { kind: "previous"; heading: string; items: PreviousAction[]; more: number }
+);
 
-  // Greeting + intro paragraph (always first)
-  parts.push(greeting);
-  parts.push(introLine({ tone: opts.tone, title: opts.title, date: opts.date }));
+export type EmailLayout = {
+  greeting: string;
+  intro: string;
+  attendees: string;
+  blocks: EmailBlock[];
+  signoff: string;
+  sender: string;
+  locale: string;
+  language: Language;
+};
+
+function joinList(items: string[], and: string): string {
+  return items.length > 1 ? `${items.slice(0, -1).join(", ")} ${and} ${items[items.length - 1]}` : items[0] ?? "";
+}
+
+// template order first, then the remaining blocks as laid out; hidden ones dropped
+const SECTION_RANK_OFFSET = 100;
+
+function applyTemplate(blocks: EmailBlock[], template?: EmailTemplate): EmailBlock[] {
+  if (!template?.sections.length) return blocks;
+  const spec = new Map(template.sections.map((s, i) => [s.id, { ...s, rank: i }]));
+  return blocks
+    .filter(b => !spec.get(b.id)?.hidden)
+    .map((b, i) => {
+      const sp = spec.get(b.id);
+      const block = sp?.heading && b.heading ? { ...b, heading: sp.heading } : b;
+      return { block, rank: sp ? sp.rank : SECTION_RANK_OFFSET + i };
+    })
+    .sort((x, y) => x.rank - y.rank)
+    .map(x => x.block);
+}
+
+export function layoutEmail(opts: ComposeOptions): EmailLayout {
+  const language = opts.language ?? "en";
+  const S = strings(language);
+  const template = localizePreset(opts.template, S.presets);
+  const preset = template?.audiences?.[opts.audience];
+  const locale = localeFor(language, opts.locale);
+
+  const greeting = preset?.greeting ?? template?.greeting ?? S.greeting[opts.audience] ?? S.greeting.internal;
 
   // Attendees (always present; placeholder if not provided)
   const attendees = (opts.participants && opts.participants.trim()) ? opts.participants.trim() : "—";
-  parts.push(`Attendees: ${attendees}`);
-  parts.push(""); // blank line before sections
+
+  const length = opts.length ?? "medium";
+  const blocks: EmailBlock[] = [];
+  const H = S.headings;
 
   // Sections (never start the email — they come after intro)
-  if (opts.type !== "action-only") {
-    if (opts.summary?.trim()) {
-      parts.push("Summary");
-      parts.push(opts.summary.trim());
-      parts.push("");
+  if (length === "short") {
+    // one-line summary, decisions + questions merged, every list capped
+    if (opts.type !== "action-only") {
+      if (opts.summary?.trim()) blocks.push({ id: "summary", kind: "paragraph", text: firstLine(opts.summary) });
+      const points = [...opts.decisions, ...opts.questions.map(q => `${S.open}: ${q}`)];
+      if (points.length) blocks.push({ id: "keyPoints", kind: "list", heading: H.keyPoints, items: capped(points, SHORT_CAP.points, S) });
     }
-    if (opts.decisions.length) {
-      parts.push("Decisions");
-      for (const d of opts.decisions) parts.push(`- ${d}`);
-      parts.push("");
+    // only what still needs attention
+    const pending = (opts.previous ?? []).filter(p => p.status !== "done");
+    if (pending.length) {
+      blocks.push({
+        id: "previous",
+        kind: "previous",
+        heading: H.previous,
+        items: pending.slice(0, SHORT_CAP.actions),
+        more: Math.max(0, pending.length - SHORT_CAP.actions)
+      });
     }
-  }
-
-  if (opts.actions.length) {
-    parts.push("Action Items");
-    for (const a of opts.actions) {
-      const due = a.due ? ` — ${a.due}` : "";
-      parts.push(`- ${a.owner || "TBD"} — ${a.task}${due}`);
+    if (opts.actions.length) {
+      blocks.push({
+        id: "actions",
+        kind: "actions",
+        heading: H.actions,
+        actions: opts.actions.slice(0, SHORT_CAP.actions),
+        more: Math.max(0, opts.actions.length - SHORT_CAP.actions),
+        rationale: false
+      });
+    }
+  } else {
+    if (opts.type !== "action-only") {
+      if (length === "long" && opts.context?.trim()) {
+        blocks.push({ id: "context", kind: "paragraph", heading: H.context, text: opts.context.trim() });
+      }
+      if (opts.summary?.trim()) blocks.push({ id: "summary", kind: "paragraph", heading: H.summary, text: opts.summary.trim() });
+      if (opts.decisions.length) blocks.push({ id: "decisions", kind: "list", heading: H.decisions, items: opts.decisions });
+    }
+    if (opts.previous?.length) {
+      blocks.push({ id: "previous", kind: "previous", heading: H.previous, items: opts.previous, more: 0 });
+    }
+    if (opts.actions.length) {
+      blocks.push({ id: "actions", kind: "actions", heading: H.actions, actions: opts.actions, more: 0, rationale: length === "long" });
+    }
+    if (opts.type !== "action-only" && opts.questions.length) {
+      blocks.push({ id: "questions", kind: "list", heading: H.questions, items: opts.questions });
     }
-    parts.push("");
   }
 
-  if (opts.type !== "action-only" && opts.questions.length) {
-    parts.push("Open Questions");
-    for (const q of opts.questions) parts.push(`- ${q}`);
+  const ordered = applyTemplate(blocks, template);
+  const name = opts.sender?.name.trim() || "";
+  const vars = {
+    title: opts.title?.trim() || S.theMeeting,
+    date: formatWhen(opts.date, locale) ?? S.today,
+    attendees,
+    sections: joinList(ordered.flatMap(b => (b.heading ? [b.heading] : [])), S.and),
+    sender: name || "{your name}",
+    type: opts.type
+  };
+  const intro = preset?.intro ?? template?.intro;
+  const signoff = preset?.signoff ?? template?.signoff;
+  const signature = opts.sender?.signature?.trim();
+
+  return {
+    greeting: fillPlaceholders(greeting, vars),
+    intro: intro ? fillPlaceholders(intro, vars) : introLine({ tone: opts.tone, title: opts.title, date: opts.date, locale, language }),
+    attendees,
+    blocks: ordered,
+    signoff: signoff ? fillPlaceholders(signoff, vars) : signoffFor(opts.tone, language),
+    sender: [vars.sender, signature ? fillPlaceholders(signature, vars) : ""].filter(Boolean).join("\n"),
+    locale,
+    language
+  };
+}
+
+/** Normalized due date when there is one, else the phrase as written. */
+export function dueLabel(a: Action, locale?: string, language?: Language): string {
+  if (!a.dueDate) return a.due;
+  const S = strings(language);
+  const flags = a.dueFlags ?? [];
+  const note =
+    flags.includes("overdue") ? ` (${S.overdue})` :
+    flags.includes("ambiguous") ? ` (${S.confirm})` :
+    "";
+  return formatDate(a.dueDate, locale, true) + note;
+}
+
+export function actionLine(a: Action, locale?: string, language?: Language): string {
+  const label = dueLabel(a, locale, language);
+  const due = label ? ` — ${label}` : "";
+  return `${a.owner || strings(language).tbd} — ${a.task}${due}`;
+}
+
+export function statusLabel(p: PreviousAction, locale?: string, language?: Language): string {
+  const S = strings(language);
+  const label = S.status[p.status];
+  if (p.note?.trim()) return `${label} (${p.note.trim()})`;
+  const due = p.status !== "done" ? dueLabel(p, locale, language) : "";
+  return due ? `${label} (${S.wasDue(due)})` : label;
+}
+
+export function previousLine(p: PreviousAction, locale?: string, language?: Language): string {
+  return `${p.owner || strings(language).tbd} — ${p.task} — ${statusLabel(p, locale, language)}`;
+}
+
+/* ---------- plain text ---------- */
+export function composeEmail(opts: ComposeOptions) {
+  const layout = layoutEmail(opts);
+  const { locale, language } = layout;
+  const S = strings(language);
+  const parts: string[] = [];
+
+  // Greeting + intro paragraph (always first)
+  parts.push(layout.greeting);
+  parts.push(layout.intro);
+  parts.push(`${S.attendees}: ${layout.attendees}`);
+  parts.push(""); // blank line before sections
+
+  for (const block of layout.blocks) {
+    if (block.heading) parts.push(block.heading);
+    if (block.kind === "paragraph") {
+      parts.push(block.text);
+    } else if (block.kind === "list") {
+      for (const item of block.items) parts.push(`- ${item}`);
+    } else if (block.kind === "previous") {
+      for (const p of block.items) parts.push(`- ${previousLine(p, locale, language)}`);
+      if (block.more) parts.push(`- ${S.more(block.more)}`);
+    } else {
+      for (const a of block.actions) {
+        parts.push(`- ${actionLine(a, locale, language)}`);
+        if (block.rationale && a.rationale?.trim()) parts.push(`  ${S.why}: ${a.rationale.trim()}`);
+      }
+      if (block.more) parts.push(`- ${S.more(block.more)}`);
+    }
     parts.push("");
   }
 
   // Signoff
-  parts.push(`${signoffFor(opts.tone)}\n{your name}`);
+  parts.push(`${layout.signoff}\n${layout.sender}`);
 
   return parts.join("\n");
 }
 
 export function subjectFrom(
   title?: string,
-  type: "summary" | "follow-up" | "action-only" = "follow-up"
+  type: "summary" | "follow-up" | "action-only" = "follow-up",
+  template?: Partial<Pick<EmailTemplate, "name" | "subject">>,
+  date?: string,
+  language?: Language,
+  locale?: string
 ) {
-  const base = title?.trim() || "Meeting";
-  const suffix =
-    type === "summary" ? "summary" :
-    type === "action-only" ? "action items" :
-    "follow-up";
+  const S = strings(language);
+  const base = title?.trim() || S.meeting;
+  const suffix = S.subject[type] ?? S.subject["follow-up"];
+  const subject = localizePreset(template, S.presets)?.subject;
   // Short, concise: "<Title> — <suffix>", max ~70 chars
-  const full = `${base} — ${suffix}`;
+  const full = subject
+    ? fillPlaceholders(subject, { title: base, type: suffix, date: formatWhen(date, localeFor(language, locale)) ?? "" }).replace(/\s*\(\s*\)/g, " ").replace(/\s{2,}/g, " ").trim()
+    : `${base} — ${suffix}`;
   return full.length > 70 ? full.slice(0, 70) : full;
 }
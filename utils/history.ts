@@ -0,0 +1,172 @@
+// utils/history.ts
+// Opt-in, on-device history of generated emails, kept in IndexedDB.
+// Nothing is written until the user turns it on; purge deletes the database.
+import { z } from "zod";
+import { extractionSchema } from "@/lib/extraction";
+import { LANGUAGE_IDS } from "@/lib/i18n";
+
+const DB_NAME = "nte_history";
+const STORE = "entries";
+const OPT_IN_KEY = "nte_history_opt_in";
+
+export const historyEntrySchema = z.object({
+  id: z.string().min(1),
+  createdAt: z.string(), // ISO timestamp
+  values: z.object({
+    title: z.string().default(""),
+    date: z.string().default(""),
+    participants: z.string().default(""),
+    audience: z.enum(["internal", "client", "stakeholder"]),
+    tone: z.enum(["concise", "formal", "friendly", "persuasive", "casual"]),
+    type: z.enum(["summary", "follow-up", "action-only"]),
+    length: z.enum(["short", "medium", "long"]),
+    templateName: z.string().default("Default"),
+    language: z.enum(LANGUAGE_IDS).default("en"),
+    notes: z.string().default(""),
+    to: z.string().default(""),
+    cc: z.string().default(""),
+    bcc: z.string().default("")
+  }),
+  extraction: extractionSchema.optional(),
+  subject: z.string(),
+  body: z.string(),
+  html: z.string().optional()
+});
+
+export type HistoryEntry = z.infer<typeof historyEntrySchema>;
+
+const exportSchema = z.object({
+  version: z.literal(1),
+  entries: z.array(z.unknown())
+});
+
+/* ---------- opt-in flag ---------- */
+export function historyEnabled(): boolean {
+  try {
+    return window.localStorage.getItem(OPT_IN_KEY) === "1";
+  } catch {
+    return false;
+  }
+}
+
+export function setHistoryEnabled(on: boolean) {
+  try {
+    if (on) window.localStorage.setItem(OPT_IN_KEY, "1");
+    else window.localStorage.removeItem(OPT_IN_KEY);
+  } catch {}
+}
+
+/* ---------- IndexedDB plumbing ---------- */
+function open(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") return reject(new Error("IndexedDB is not available in this browser."));
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => {
+      const store = req.result.createObjectStore(STORE, { keyPath: "id" });
+      store.createIndex("createdAt", "createdAt");
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> {
+  const db = await open();
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const req = fn(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(req ? req.result : undefined);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/* =========================
+   API
+   ========================= */
+export function newEntryId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export async function saveEntry(entry: HistoryEntry): Promise<void> {
+  await run("readwrite", s => s.put(entry));
+}
+
+/** Newest first. Entries saved by older versions get today's defaults. */
+export async function listEntries(): Promise<HistoryEntry[]> {
+  const raw = (await run<unknown[]>("readonly", s => s.getAll())) ?? [];
+  const all = raw.flatMap(e => {
+    const r = historyEntrySchema.safeParse(e);
+    return r.success ? [r.data] : [];
+  });
+  return all.sort((a, b) => (a.createdAt < b.createdAt ? 1 : a.createdAt > b.createdAt ? -1 : 0));
+}
+
+export async function deleteEntry(id: string): Promise<void> {
+  await run("readwrite", s => s.delete(id));
+}
+
+export function purgeHistory(): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.deleteDatabase(DB_NAME);
+    req.onsuccess = () => resolve();
+    req.onerror = () => reject(req.error);
+    req.onblocked = () => resolve(); // finishes once other tabs close the database
+  });
+}
+
+/* ---------- search ---------- */
+function haystack(e: HistoryEntry): string {
+  const x = e.extraction;
+  return [
+    e.values.title,
+    e.values.date,
+    e.values.participants,
+    e.values.notes,
+    e.subject,
+    x?.summary,
+    ...(x?.decisions ?? []),
+    ...(x?.questions ?? []),
+    ...(x?.actions ?? []).map(a => `${a.owner} ${a.task}`)
+  ].join("\n").toLowerCase();
+}
+
+/** Every word of the query must appear somewhere in the entry's notes, decisions, actions or subject. */
+export function searchEntries(entries: HistoryEntry[], query: string): HistoryEntry[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!terms.length) return entries;
+  return entries.filter(e => {
+    const text = haystack(e);
+    return terms.every(t => text.includes(t));
+  });
+}
+
+/* ---------- export / import ---------- */
+export async function exportHistory(): Promise<string> {
+  return JSON.stringify({ version: 1, exportedAt: new Date().toISOString(), entries: await listEntries() }, null, 2);
+}
+
+/** Adds (or overwrites by id) the valid entries from an export; returns how many were imported and skipped. */
+export async function importHistory(json: string): Promise<{ imported: number; skipped: number }> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("Not a JSON file.");
+  }
+  const file = exportSchema.safeParse(parsed);
+  if (!file.success) throw new Error("Not a history export.");
+
+  const valid = file.data.entries.flatMap(e => {
+    const r = historyEntrySchema.safeParse(e);
+    return r.success ? [r.data] : [];
+  });
+  await run("readwrite", s => {
+    for (const e of valid) s.put(e);
+  });
+  return { imported: valid.length, skipped: file.data.entries.length - valid.length };
+}
@@ -0,0 +1,71 @@
+// utils/html.ts
+// HTML counterpart of composeEmail: same layout, rendered with inline styles
+// because most mail clients drop <style> blocks.
+import { dueLabel, layoutEmail, statusLabel, type ComposeOptions, type EmailBlock } from "@/utils/format";
+import { strings, type Language } from "@/lib/i18n";
+
+export function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const S = {
+  body: "font-family:Arial,Helvetica,sans-serif;font-size:14px;line-height:1.5;color:#1f2933;",
+  h2: "font-size:16px;margin:20px 0 8px;",
+  p: "margin:0 0 12px;",
+  muted: "margin:0 0 12px;color:#52606d;",
+  table: "border-collapse:collapse;width:100%;margin:0 0 12px;",
+  th: "text-align:left;border-bottom:2px solid #cbd2d9;padding:6px 8px;",
+  td: "vertical-align:top;border-bottom:1px solid #e4e7eb;padding:6px 8px;"
+};
+
+function paragraphs(text: string): string {
+  return text
+    .split(/\n{2,}/)
+    .map(p => `<p style="${S.p}">${escapeHtml(p).replace(/\n/g, "<br>")}</p>`)
+    .join("");
+}
+
+function renderBlock(block: EmailBlock, locale: string, language: Language): string {
+  const L = strings(language);
+  const heading = block.heading ? `<h2 style="${S.h2}">${escapeHtml(block.heading)}</h2>` : "";
+  if (block.kind === "paragraph") return heading + paragraphs(block.text);
+  if (block.kind === "list") {
+    return heading + `<ul>${block.items.map(i => `<li>${escapeHtml(i)}</li>`).join("")}</ul>`;
+  }
+
+  const previous = block.kind === "previous";
+  const cols = previous
+    ? [L.owner, L.task, L.statusColumn]
+    : [L.owner, L.task, L.due, ...(block.rationale ? [L.why] : [])];
+  const rows = (previous
+    ? block.items.map(p => [p.owner || L.tbd, p.task, statusLabel(p, locale, language)])
+    : block.actions.map(a => [a.owner || L.tbd, a.task, dueLabel(a, locale, language) || "—", ...(block.rationale ? [a.rationale ?? ""] : [])])
+  ).map(cells => `<tr>${cells.map(c => `<td style="${S.td}">${escapeHtml(c)}</td>`).join("")}</tr>`);
+  const more = block.more ? `<p style="${S.muted}">${escapeHtml(L.more(block.more))}</p>` : "";
+  return (
+    heading +
+    `<table style="${S.table}"><thead><tr>` +
+    cols.map(c => `<th style="${S.th}">${escapeHtml(c)}</th>`).join("") +
+    `</tr></thead><tbody>${rows.join("")}</tbody></table>` +
+    more
+  );
+}
+
+export function composeEmailHtml(opts: ComposeOptions): string {
+  const layout = layoutEmail(opts);
+  const L = strings(layout.language);
+  return [
+    `<!DOCTYPE html><html><head><meta charset="utf-8"></head><body style="${S.body}">`,
+    `<p style="${S.p}">${escapeHtml(layout.greeting)}</p>`,
+    `<p style="${S.p}">${escapeHtml(layout.intro)}</p>`,
+    `<p style="${S.muted}"><strong>${escapeHtml(L.attendees)}:</strong> ${escapeHtml(layout.attendees)}</p>`,
+    ...layout.blocks.map(b => renderBlock(b, layout.locale, layout.language)),
+    `<p style="${S.p}">${escapeHtml(layout.signoff)}<br>${escapeHtml(layout.sender).replace(/\n/g, "<br>")}</p>`,
+    `</body></html>`
+  ].join("\n");
+}
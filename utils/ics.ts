@@ -0,0 +1,145 @@
+// utils/ics.ts
+// iCalendar (RFC 5545) export of action items, as VTODO tasks or all-day
+// VEVENT reminders. Runs in the browser and on Node.
+import { ownerNames } from "@/utils/addressbook";
+import type { Action } from "@/utils/format";
+import { parseMeetingDate, toISODate } from "@/lib/dates";
+
+export type IcsKind = "todo" | "event";
+
+export type IcsInput = {
+  title?: string;
+  date?: string; // meeting date
+  participants?: string; // "Anna <anna@x.com>, Bob" — addresses become ATTENDEEs
+  actions: Action[];
+  kind?: IcsKind; // default "event"
+  now?: Date;
+};
+
+/* ---------- RFC 5545 text rules ---------- */
+export function escapeText(s: string): string {
+  return s
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function escapeParam(s: string): string {
+  // quoted parameter values cannot contain DQUOTE
+  return `"${s.replace(/"/g, "'")}"`;
+}
+
+/** Folds a content line at 75 octets without splitting a UTF-8 sequence. */
+export function foldLine(line: string): string {
+  const enc = new TextEncoder();
+  const out: string[] = [];
+  let cur = "";
+  let bytes = 0;
+  let limit = 75;
+  for (const ch of line) {
+    const n = enc.encode(ch).length;
+    if (bytes + n > limit) {
+      out.push(cur);
+      cur = "";
+      bytes = 0;
+      limit = 74; // continuation lines start with a space
+    }
+    cur += ch;
+    bytes += n;
+  }
+  out.push(cur);
+  return out.join("\r\n ");
+}
+
+function icsDate(iso: string) {
+  return iso.replace(/-/g, "");
+}
+
+function icsStamp(d: Date) {
+  return d.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/* ---------- owners ---------- */
+const ADDRESS_RE = /^(.*?)\s*<([^<>\s@]+@[^<>\s@]+\.[^<>\s@]+)>$|^([^\s@]+@[^\s@]+\.[^\s@]+)$/;
+
+/** name (lower-cased, full and first) → email, from "Anna Smith <anna@x.com>, bob@y.com" */
+export function addressMap(participants?: string): Map<string, { name: string; email: string }> {
+  const map = new Map<string, { name: string; email: string }>();
+  for (const raw of (participants ?? "").split(/[,;\n]+/)) {
+    const m = raw.trim().match(ADDRESS_RE);
+    if (!m) continue;
+    const email = m[2] ?? m[3];
+    const name = (m[1] ?? "").replace(/^"|"$/g, "").trim() || email.split("@")[0];
+    const entry = { name, email };
+    map.set(name.toLowerCase(), entry);
+    map.set(name.toLowerCase().split(/\s+/)[0], entry);
+    map.set(email.toLowerCase(), entry);
+  }
+  return map;
+}
+
+// first known owner organizes; every known owner attends
+function ownerLines(owner: string, book: ReturnType<typeof addressMap>): string[] {
+  const known = ownerNames(owner)
+    .map(n => book.get(n.toLowerCase()))
+    .filter((x): x is { name: string; email: string } => !!x);
+  if (!known.length) return [];
+  return [
+    `ORGANIZER;CN=${escapeParam(known[0].name)}:mailto:${known[0].email}`,
+    ...known.map(a => `ATTENDEE;CN=${escapeParam(a.name)};ROLE=REQ-PARTICIPANT:mailto:${a.email}`)
+  ];
+}
+
+/* =========================
+   Builder
+   ========================= */
+export function buildIcs(input: IcsInput): string {
+  const kind = input.kind ?? "event";
+  const now = input.now ?? new Date();
+  const stamp = icsStamp(now);
+  const meeting = input.title?.trim() || "Meeting";
+  const meetingDay = parseMeetingDate(input.date);
+  const book = addressMap(input.participants);
+  const uidBase = `${stamp}-${Math.random().toString(36).slice(2, 10)}`;
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Notes to Email//Action Items//EN",
+    "CALSCALE:GREGORIAN"
+  ];
+
+  input.actions.forEach((a, i) => {
+    const owner = a.owner || "TBD";
+    const when = meetingDay ? ` on ${toISODate(meetingDay)}` : "";
+    const description = [
+      `Owner: ${owner}`,
+      a.due ? `Due: ${a.due}` : "",
+      `From "${meeting}"${when}`
+    ].filter(Boolean).join("\n");
+
+    // events need a day; undated actions fall back to the meeting date (or today)
+    const day = a.dueDate || (kind === "event" ? toISODate(meetingDay ?? now) : "");
+
+    lines.push(kind === "todo" ? "BEGIN:VTODO" : "BEGIN:VEVENT");
+    lines.push(`UID:${uidBase}-${i}@notes-to-email`);
+    lines.push(`DTSTAMP:${stamp}`);
+    lines.push(`SUMMARY:${escapeText(a.task)}`);
+    lines.push(`DESCRIPTION:${escapeText(description)}`);
+    if (kind === "todo") {
+      if (day) lines.push(`DUE;VALUE=DATE:${icsDate(day)}`);
+      lines.push("STATUS:NEEDS-ACTION");
+    } else {
+      const next = new Date(Date.parse(day + "T00:00:00Z") + 86_400_000);
+      lines.push(`DTSTART;VALUE=DATE:${icsDate(day)}`);
+      lines.push(`DTEND;VALUE=DATE:${icsDate(toISODate(next))}`);
+      lines.push("TRANSP:TRANSPARENT");
+    }
+    lines.push(...ownerLines(owner, book));
+    lines.push(kind === "todo" ? "END:VTODO" : "END:VEVENT");
+  });
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,125 @@
+// utils/mime.ts
+// Minimal MIME assembly for .eml export: RFC 2047 headers, quoted-printable
+// bodies and a multipart/alternative wrapper. Runs in the browser and on Node.
+
+const utf8 = (s: string) => new TextEncoder().encode(s);
+
+function isAscii(s: string) {
+  return /^[\x20-\x7e]*$/.test(s);
+}
+
+function base64(bytes: Uint8Array): string {
+  let bin = "";
+  for (const b of bytes) bin += String.fromCharCode(b);
+  return btoa(bin);
+}
+
+/**
+ * Encodes a header value as RFC 2047 encoded-words when it is not plain ASCII.
+ * Words are split on character boundaries so none exceeds 75 chars.
+ */
+export function encodeHeader(value: string): string {
+  const v = value.replace(/\r?\n/g, " ");
+  if (isAscii(v)) return v;
+
+  const words: string[] = [];
+  let chunk = "";
+  for (const ch of v) {
+    // 45 bytes -> 60 base64 chars + 12 for "=?UTF-8?B?" and "?="
+    if (utf8(chunk + ch).length > 45) {
+      words.push(chunk);
+      chunk = "";
+    }
+    chunk += ch;
+  }
+  if (chunk) words.push(chunk);
+  return words.map(w => `=?UTF-8?B?${base64(utf8(w))}?=`).join("\r\n ");
+}
+
+/** Quoted-printable (RFC 2045) with CRLF line endings and 76-char soft breaks. */
+export function quotedPrintable(text: string): string {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  return lines
+    .map(line => {
+      const bytes = utf8(line);
+      let out = "";
+      let col = 0;
+      bytes.forEach((b, i) => {
+        const last = i === bytes.length - 1;
+        const literal =
+          (b >= 33 && b <= 126 && b !== 61) || ((b === 32 || b === 9) && !last);
+        const tok = literal ? String.fromCharCode(b) : "=" + b.toString(16).toUpperCase().padStart(2, "0");
+        if (col + tok.length > 75) {
+          out += "=\r\n";
+          col = 0;
+        }
+        out += tok;
+        col += tok.length;
+      });
+      return out;
+    })
+    .join("\r\n");
+}
+
+/** `Name <address>`, with the name quoted or RFC 2047-encoded as needed. */
+export function formatAddress(email: string, name?: string): string {
+  const n = name?.replace(/[\r\n<>]/g, " ").trim();
+  if (!n) return email;
+  const display = isAscii(n) ? `"${n.replace(/["\\]/g, "\\$&")}"` : encodeHeader(n);
+  return `${display} <${email}>`;
+}
+
+export type EmlMessage = {
+  from?: string;
+  replyTo?: string;
+  messageId?: string;
+  to: string;
+  cc?: string;
+  bcc?: string; // kept for drafts; mail clients drop it when sending
+  subject: string;
+  text: string;
+  html?: string;
+  date?: Date;
+};
+
+export function buildEml(msg: EmlMessage): string {
+  const headers = [
+    `Date: ${(msg.date ?? new Date()).toUTCString()}`,
+    ...(msg.from ? [`From: ${msg.from}`] : []),
+    `To: ${msg.to || ""}`,
+    ...(msg.cc ? [`Cc: ${msg.cc}`] : []),
+    ...(msg.bcc ? [`Bcc: ${msg.bcc}`] : []),
+    ...(msg.replyTo ? [`Reply-To: ${msg.replyTo}`] : []),
+    `Subject: ${encodeHeader(msg.subject)}`,
+    ...(msg.messageId ? [`Message-ID: ${msg.messageId}`] : []),
+    `MIME-Version: 1.0`
+  ];
+  const textPart = [
+    `Content-Type: text/plain; charset=UTF-8`,
+    `Content-Transfer-Encoding: quoted-printable`,
+    ``,
+    quotedPrintable(msg.text)
+  ].join("\r\n");
+
+  if (!msg.html) return [...headers, textPart].join("\r\n") + "\r\n";
+
+  const boundary = `=_nte_${Math.random().toString(36).slice(2)}${Date.now().toString(36)}`;
+  const htmlPart = [
+    `Content-Type: text/html; charset=UTF-8`,
+    `Content-Transfer-Encoding: quoted-printable`,
+    ``,
+    quotedPrintable(msg.html)
+  ].join("\r\n");
+
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    ``,
+    `--${boundary}`,
+    textPart,
+    `--${boundary}`,
+    htmlPart,
+    `--${boundary}--`,
+    ``
+  ].join("\r\n");
+}
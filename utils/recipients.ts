@@ -0,0 +1,25 @@
+// utils/recipients.ts
+// Recipient fields ("a@x.com; b@y.com") as typed by the user. Shared by the
+// compose links in the browser and the draft/send routes on the server.
+
+export function sanitizeRecipients(raw: string): string {
+  if (!raw) return "";
+  return raw
+    .split(/[,;]+/)
+    .map(e => e.trim())
+    .filter(Boolean)
+    .join(",");
+}
+
+export function recipientList(raw: string): string[] {
+  return sanitizeRecipients(raw).split(",").filter(Boolean);
+}
+
+export function isValidEmail(email: string) {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+}
+
+export function validateRecipients(raw: string): { ok: boolean; bad: string[] } {
+  const bad = recipientList(raw).filter(e => !isValidEmail(e));
+  return { ok: bad.length === 0, bad };
+}
@@ -0,0 +1,153 @@
+// utils/trackers.ts
+// Action items as issue-tracker imports: generic CSV, Jira CSV import,
+// GitHub Issues JSON and Linear JSON, plus the generic payload the tracker
+// webhook receives. Pure functions; runs in the browser and on the server.
+import type { Action } from "@/utils/format";
+import { parseMeetingDate, toISODate } from "@/lib/dates";
+
+export type TrackerFormat = "csv" | "jira" | "github" | "linear";
+
+export const TRACKER_FORMATS: { id: TrackerFormat; label: string; ext: string; mime: string }[] = [
+  { id: "csv", label: "CSV", ext: "csv", mime: "text/csv" },
+  { id: "jira", label: "Jira (CSV import)", ext: "jira.csv", mime: "text/csv" },
+  { id: "github", label: "GitHub Issues (JSON)", ext: "github.json", mime: "application/json" },
+  { id: "linear", label: "Linear (JSON)", ext: "linear.json", mime: "application/json" }
+];
+
+export type Meeting = { title?: string; date?: string };
+
+/** Tracker-neutral issue; every format is derived from this. */
+export type TrackerIssue = {
+  title: string;
+  description: string;
+  owner: string; // as written in the email
+  assignee: string; // tracker username after mapping, "" when unknown
+  due: string; // phrase as written
+  dueDate: string; // ISO, "" when unresolved
+  labels: string[];
+};
+
+const LABEL = "meeting-action";
+
+/* ---------- owner mapping ---------- */
+export type OwnerMap = Record<string, string>;
+
+/** Parses "Anna Smith = asmith" / "Bob: bjones" lines into a name → username table. */
+export function parseOwnerMap(text: string): OwnerMap {
+  const map: OwnerMap = {};
+  for (const line of text.split(/\r?\n/)) {
+    const m = line.match(/^\s*(.+?)\s*[=:]\s*@?(\S+)\s*$/);
+    if (m) map[m[1].toLowerCase()] = m[2];
+  }
+  return map;
+}
+
+function lookup(owner: string, map: OwnerMap): string {
+  const names = owner.split(/\s*,\s*/).filter(n => n && n !== "TBD");
+  for (const n of names) {
+    const key = n.toLowerCase();
+    const hit = map[key] ?? map[key.split(/\s+/)[0]];
+    if (hit) return hit;
+  }
+  return "";
+}
+
+/* ---------- issues ---------- */
+export function meetingRef(m: Meeting): string {
+  const title = m.title?.trim() || "Meeting";
+  const day = parseMeetingDate(m.date);
+  const when = day ? toISODate(day) : m.date?.trim();
+  return when ? `"${title}" (${when})` : `"${title}"`;
+}
+
+export function toIssues(actions: Action[], meeting: Meeting, owners: OwnerMap = {}): TrackerIssue[] {
+  return actions.map(a => {
+    const owner = a.owner || "TBD";
+    const description = [
+      a.task,
+      "",
+      `Owner: ${owner}`,
+      a.due ? `Due: ${a.due}${a.dueDate && a.dueDate !== a.due ? ` (${a.dueDate})` : ""}` : "",
+      a.rationale ? `Why: ${a.rationale}` : "",
+      `From meeting ${meetingRef(meeting)}`
+    ].filter((l, i) => l || i === 1).join("\n");
+    return {
+      title: a.task.length > 120 ? a.task.slice(0, 119).trimEnd() + "…" : a.task,
+      description,
+      owner,
+      assignee: lookup(owner, owners),
+      due: a.due,
+      dueDate: a.dueDate ?? "",
+      labels: [LABEL]
+    };
+  });
+}
+
+/* ---------- CSV ---------- */
+function csvCell(v: string): string {
+  // neutralise spreadsheet formulas, then quote when needed
+  const safe = /^[=+\-@\t\r]/.test(v) ? `'${v}` : v;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function csv(rows: string[][]): string {
+  return rows.map(r => r.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+/* ---------- formats ---------- */
+export function renderIssues(format: TrackerFormat, issues: TrackerIssue[], meeting: Meeting): string {
+  switch (format) {
+    case "csv":
+      return csv([
+        ["Owner", "Assignee", "Task", "Due", "Due Date", "Meeting", "Meeting Date"],
+        ...issues.map(i => [i.owner, i.assignee, i.title, i.due, i.dueDate, meeting.title ?? "", meeting.date ?? ""])
+      ]);
+    case "jira":
+      // map these columns in Jira's CSV importer; date format yyyy-MM-dd
+      return csv([
+        ["Summary", "Issue Type", "Description", "Assignee", "Due Date", "Labels"],
+        ...issues.map(i => [i.title, "Task", i.description, i.assignee, i.dueDate, i.labels.join(" ")])
+      ]);
+    case "github":
+      // one POST /repos/{owner}/{repo}/issues body per item
+      return JSON.stringify(
+        issues.map(i => ({
+          title: i.title,
+          body: i.description,
+          assignees: i.assignee ? [i.assignee] : [],
+          labels: i.labels
+        })),
+        null,
+        2
+      );
+    case "linear":
+      return JSON.stringify(
+        {
+          issues: issues.map(i => ({
+            title: i.title,
+            description: i.description,
+            assignee: i.assignee || undefined,
+            dueDate: i.dueDate || undefined,
+            labels: i.labels
+          }))
+        },
+        null,
+        2
+      );
+  }
+}
+
+export function exportActions(
+  format: TrackerFormat,
+  actions: Action[],
+  meeting: Meeting,
+  owners: OwnerMap = {}
+): { filename: string; mime: string; content: string } {
+  const meta = TRACKER_FORMATS.find(f => f.id === format)!;
+  const base = (meeting.title?.trim() || "actions").replace(/[^\w\-]+/g, "_");
+  return {
+    filename: `${base}.${meta.ext}`,
+    mime: meta.mime,
+    content: renderIssues(format, toIssues(actions, meeting, owners), meeting)
+  };
+}
@@ -0,0 +1,35 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+// provider settings from the shell must not turn a test into a real model
+// call; with RECORD_LLM=1 they are handed to tests/helpers/llm.ts instead
+const PROVIDER_VARS = /^(LLM|OPENAI|AZURE_OPENAI|ANTHROPIC)_/;
+const NO_PROVIDER = {
+  LLM_PROVIDER: "",
+  LLM_BASE_URL: "",
+  LLM_API_KEY: "",
+  OPENAI_API_KEY: "",
+  AZURE_OPENAI_API_KEY: "",
+  ANTHROPIC_API_KEY: ""
+};
+const recordEnv = Object.fromEntries(Object.entries(process.env).filter(([k]) => PROVIDER_VARS.test(k)));
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": path.resolve(__dirname) }
+  },
+  test: {
+    include: ["tests/**/*.test.ts"],
+    setupFiles: ["tests/setup.ts"],
+    unstubEnvs: true,
+    env: {
+      ...NO_PROVIDER,
+      RECORD_LLM_ENV: process.env.RECORD_LLM ? JSON.stringify(recordEnv) : "",
+      TZ: "UTC",
+      RATE_LIMIT_PER_MINUTE: "0",
+      DAILY_TOKEN_CAP: "0",
+      REDACT_PII: "",
+      REDACT_TERMS: ""
+    }
+  }
+});